@@ -0,0 +1,59 @@
+/**
+ * Benchmark change collection and payload building on a synthetic
+ * 2,000-file change: 1,800 modified tracked files and 200 untracked ones.
+ *
+ *   npm run bench [-- <files>]
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { execFileSync } from 'child_process';
+import { getChangedFiles, resolveReviewTarget } from '../src/git.js';
+import { buildReviewPayload, scanForSecrets } from '../src/api.js';
+
+const FILE_COUNT = parseInt(process.argv[2] || '2000', 10);
+const UNTRACKED_COUNT = Math.floor(FILE_COUNT / 10);
+
+/**
+ * Write a source-like file of roughly 60 lines
+ */
+function writeFile(repo: string, index: number, revision: number): void {
+  const dir = path.join(repo, 'src', `module-${index % 40}`);
+  fs.mkdirSync(dir, { recursive: true });
+  const lines = Array.from({ length: 60 }, (_, line) =>
+    `export const value${line} = ${line % 7 === 0 ? revision : line}; // file ${index}`
+  );
+  fs.writeFileSync(path.join(dir, `file ${index}.ts`), lines.join('\n') + '\n');
+}
+
+/**
+ * Time an async step and print how long it took
+ */
+async function time<T>(label: string, fn: () => Promise<T> | T): Promise<T> {
+  const start = performance.now();
+  const result = await fn();
+  console.log(`  ${label.padEnd(24)} ${(performance.now() - start).toFixed(0).padStart(6)} ms`);
+  return result;
+}
+
+const repo = fs.mkdtempSync(path.join(os.tmpdir(), 'beetle-bench-'));
+const git = (...args: string[]) => execFileSync('git', ['-c', 'user.name=bench', '-c', 'user.email=bench@localhost', ...args], { cwd: repo, stdio: 'pipe' });
+
+try {
+  git('init', '-q');
+  for (let i = 0; i < FILE_COUNT - UNTRACKED_COUNT; i++) writeFile(repo, i, 0);
+  git('add', '-A');
+  git('commit', '-q', '-m', 'baseline');
+  for (let i = 0; i < FILE_COUNT; i++) writeFile(repo, i, 1);
+  process.chdir(repo);
+
+  console.log(`\nSynthetic change: ${FILE_COUNT} files (${UNTRACKED_COUNT} untracked) in ${repo}\n`);
+  const target = resolveReviewTarget();
+  const changes = await time('collect changes', () => getChangedFiles({ target }));
+  await time('scan for secrets', () => scanForSecrets(changes.files, target));
+  const payload = await time('build payload', () => buildReviewPayload(changes.files, target));
+  console.log(`\n  ${changes.totalFiles} files, ${(JSON.stringify(payload).length / 1024 / 1024).toFixed(1)} MB payload\n`);
+} finally {
+  process.chdir(os.tmpdir());
+  fs.rmSync(repo, { recursive: true, force: true });
+}
@@ -1,13 +1,26 @@
 import { gzipSync } from 'zlib';
-import { getAuthToken } from './config.js';
-import { getRepoPath, getCurrentBranch, getDefaultBranch } from './guards.js';
-import { getChangedFiles, ChangedFile } from './git.js';
+import { getAuthToken, getAuthSource, getConfig, saveAuth, getApiUrl, BeetleConfig } from './config.js';
+import { getTokenExpiry } from './token.js';
+import { Response } from 'undici';
+import { request, readJson, getResponseError, RequestOptions } from './client.js';
+import { ApiError, AuthError } from './errors.js';
+import { getSecretPatterns, redactSecrets, scanFile, SecretFinding } from './secrets.js';
+import { getRepoPath } from './guards.js';
+import {
+  getChangedFiles,
+  ChangedFile,
+  ReviewTarget,
+  resolveReviewTarget,
+  getTargetDiffArgs,
+  getFileDiffs,
+  formatNewFileDiff,
+  readFilesAt,
+  readWorkingFiles,
+  DiffPart
+} from './git.js';
 import { execSync } from 'child_process';
-import fs from 'fs';
 import path from 'path';
 
-// API base URL - use environment variable or default to production
-const API_BASE_URL = process.env.BEETLE_API_URL || 'https://api.beetleai.dev';
 export interface ReviewComment {
   id: string;
   file_path: string;
@@ -31,67 +44,210 @@ export interface AnalysisStatus {
   data_id: string;
 }
 
+// Extra review options, from settings
+export interface SubmitOptions {
+  instructions?: string;     // custom review instructions
+  secretPatterns?: string[]; // extra regexes to redact before upload
+}
+
+export interface DeviceCodeResponse {
+  device_code: string;
+  user_code: string;
+  verification_uri: string;
+  verification_uri_complete?: string;
+  expires_in: number; // seconds
+  interval?: number;  // seconds between token polls
+}
+
+export type DeviceTokenResult =
+  | { status: 'pending' }
+  | { status: 'slow_down' }
+  | { status: 'approved'; token: string; refreshToken?: string };
+
+// Refresh tokens this long before they expire
+const REFRESH_MARGIN = 60 * 1000;
+
+// Asks the user to log in again; returns true if they did
+let reauthenticate: (() => Promise<boolean>) | null = null;
+
 /**
- * Compress large content using gzip and encode as base64
+ * Set how to ask the user to log in again when their session expires
+ * (null when prompting isn't possible, e.g. in the full-screen UI)
  */
-function compressContent(content: string): string {
-  const buffer = Buffer.from(content, 'utf-8');
-  const compressed = gzipSync(buffer);
-  return compressed.toString('base64');
+export function setReauthenticateHandler(handler: (() => Promise<boolean>) | null): void {
+  reauthenticate = handler;
 }
 
 /**
- * Get file content
+ * Exchange the saved refresh token for a new access token
+ * @returns the new token, or null if the session can't be refreshed
  */
-function getFileContent(filePath: string): string {
+async function refreshAuthToken(): Promise<string | null> {
+  const refreshToken = getConfig().refreshToken;
+  // Environment tokens are managed outside the CLI
+  if (!refreshToken || getAuthSource() !== 'config') return null;
+  
   try {
-    const repoPath = getRepoPath();
-    return fs.readFileSync(path.join(repoPath, filePath), 'utf-8');
+    const response = await request(`${getApiUrl()}/api/cli/token/refresh`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ refresh_token: refreshToken })
+    });
+    if (!response.ok) return null;
+    
+    const data = await readJson(response);
+    const token = data.access_token || data.token;
+    if (!token) return null;
+    saveAuth(token, { refreshToken: data.refresh_token || refreshToken });
+    return token;
   } catch {
-    return '';
+    return null;
   }
 }
 
 /**
- * Get diff for a file
+ * Get the auth token, refreshing it first if it is about to expire
  */
-function getFileDiff(filePath: string, isUntracked: boolean): string {
-  try {
-    const repoPath = getRepoPath();
-    if (isUntracked) {
-      // For untracked files, return full content
-      return getFileContent(filePath);
+async function getFreshToken(): Promise<string> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new AuthError('Not authenticated');
+  }
+  
+  const expiry = getTokenExpiry(token);
+  if (expiry && expiry.getTime() - REFRESH_MARGIN <= Date.now()) {
+    return (await refreshAuthToken()) || token;
+  }
+  return token;
+}
+
+/**
+ * Explain how to recover from an expired or revoked session
+ */
+function getSessionExpiredMessage(): string {
+  if (getAuthSource() === 'env') {
+    return 'BEETLE_TOKEN was rejected (expired or revoked). Update it and try again.';
+  }
+  return 'Your session has expired. Run `beetle auth login` to log in again.';
+}
+
+/**
+ * Make sure the session is usable before starting work,
+ * refreshing or logging in again if the token has expired
+ */
+export async function ensureValidAuth(): Promise<void> {
+  const expiry = getTokenExpiry(await getFreshToken());
+  if (expiry && expiry.getTime() <= Date.now()) {
+    if (!reauthenticate || !(await reauthenticate())) {
+      throw new AuthError(getSessionExpiredMessage());
     }
-    return execSync(`git diff HEAD -- "${filePath}"`, {
-      cwd: repoPath,
-      encoding: 'utf-8',
-      stdio: ['pipe', 'pipe', 'pipe']
-    });
-  } catch {
-    return '';
   }
 }
 
 /**
- * Get full diff (staged + unstaged)
+ * Fetch an API endpoint with the auth token. On a 401 the token is
+ * refreshed (or the user asked to log in again) and the request retried.
  */
-function getFullDiff(): string {
-  try {
-    const repoPath = getRepoPath();
-    const staged = execSync('git diff --cached', {
-      cwd: repoPath,
-      encoding: 'utf-8',
-      stdio: ['pipe', 'pipe', 'pipe']
-    });
-    const unstaged = execSync('git diff', {
-      cwd: repoPath,
-      encoding: 'utf-8', 
-      stdio: ['pipe', 'pipe', 'pipe']
-    });
-    return (staged || '') + (unstaged || '');
-  } catch {
-    return 'No diff available';
+async function authorizedFetch(url: string, init: RequestOptions = {}): Promise<Response> {
+  const send = (token: string) => request(url, {
+    ...init,
+    headers: {
+      ...init.headers,
+      'Authorization': `Bearer ${token}`
+    }
+  });
+  
+  const response = await send(await getFreshToken());
+  if (response.status !== 401) return response;
+  
+  const refreshed = await refreshAuthToken();
+  if (refreshed) {
+    const retried = await send(refreshed);
+    if (retried.status !== 401) return retried;
+  }
+  
+  if (reauthenticate && await reauthenticate()) {
+    const retried = await send(await getFreshToken());
+    if (retried.status !== 401) return retried;
   }
+  
+  throw new AuthError(getSessionExpiredMessage(), 401);
+}
+
+// Uploading a large review can take longer than other requests
+const UPLOAD_TIMEOUT = 2 * 60 * 1000;
+
+// Payloads larger than this (8MB) are uploaded in batches of up to 4MB
+export const BATCHED_UPLOAD_THRESHOLD = 8 * 1024 * 1024;
+export const UPLOAD_BATCH_SIZE = 4 * 1024 * 1024;
+
+// Patches and contents larger than this (10KB) are gzipped in the payload
+export const COMPRESSION_THRESHOLD = 10 * 1024;
+
+/**
+ * Compress large content using gzip and encode as base64
+ */
+function compressContent(content: string): string {
+  const buffer = Buffer.from(content, 'utf-8');
+  const compressed = gzipSync(buffer);
+  return compressed.toString('base64');
+}
+
+interface FileTexts {
+  patches: Map<string, string>; // what each file's patch is uploaded as
+  contents: Map<string, string>;
+  diffParts: DiffPart[];        // the combined diff, split per file
+}
+
+/**
+ * Read the patches and contents of the reviewed files: one git diff split
+ * per file, and one batched read of the contents (binary files are skipped).
+ * New files are sent in full as their patch. Untracked files, which only
+ * reviews against the working tree include, are added to the combined diff.
+ */
+async function readFileTexts(files: ChangedFile[], target: ReviewTarget): Promise<FileTexts> {
+  const textFiles = files.filter(f => !f.binary);
+  const paths = textFiles.map(f => f.path);
+  const isUntracked = (f: ChangedFile) => !target.head.sha && f.status === 'untracked';
+  const isNew = (f: ChangedFile) => isUntracked(f) || (target.kind === 'working' && f.status === 'added');
+
+  const [contents, diffs] = await Promise.all([
+    target.head.sha ? readFilesAt(target.head.sha, paths) : readWorkingFiles(paths),
+    getFileDiffs(files, getTargetDiffArgs(target))
+  ]);
+
+  const patches = new Map(textFiles.map(f => [f.path, isNew(f) ? contents.get(f.path) || '' : diffs.patches.get(f.path) || '']));
+  const untracked = textFiles
+    .filter(f => isUntracked(f) && !diffs.patches.has(f.path))
+    .map(f => ({ path: f.path, text: formatNewFileDiff(f.path, contents.get(f.path) || '') }));
+  return { patches, contents, diffParts: [...diffs.parts, ...untracked] };
+}
+
+// A piece of the combined diff in a batched upload: either a file's
+// already-uploaded patch, or text that isn't in any patch
+export type FullDiffPart = { file: string } | { text: string };
+
+/**
+ * Build the review payload, plus its combined diff as references to the
+ * per-file patches (for batched uploads, so no diff is sent twice)
+ */
+async function assembleReview(
+  files: ChangedFile[],
+  target: ReviewTarget,
+  options: SubmitOptions
+): Promise<{ payload: any; fullDiffParts: FullDiffPart[] }> {
+  const patterns = getSecretPatterns(options.secretPatterns);
+  const texts = await readFileTexts(files, target);
+  const payload = buildPayloadFromTexts(files, target, options, texts);
+
+  const fullDiffParts = texts.diffParts.map((part): FullDiffPart =>
+    part.path !== null && texts.patches.get(part.path) === part.text
+      ? { file: part.path }
+      : { text: redactSecrets(part.text, patterns) }
+  );
+  return { payload, fullDiffParts };
 }
 
 /**
@@ -140,28 +296,55 @@ function getCommitSha(): string {
 }
 
 /**
- * Build the review payload with compression
+ * Scan the files about to be uploaded for likely secrets
+ */
+export async function scanForSecrets(
+  files: ChangedFile[],
+  target: ReviewTarget = resolveReviewTarget(),
+  options: SubmitOptions = {}
+): Promise<SecretFinding[]> {
+  const patterns = getSecretPatterns(options.secretPatterns);
+  const { patches, contents } = await readFileTexts(files, target);
+  return [
+    ...files.filter(f => !f.binary).flatMap(file =>
+      scanFile(file.path, contents.get(file.path) || '', patches.get(file.path) || '', patterns)
+    ),
+    // Commit messages are uploaded with the changes
+    ...target.commits.flatMap(commit => scanFile(`commit ${commit.sha.substring(0, 7)}`, commit.message, '', patterns))
+  ];
+}
+
+/**
+ * Build the review payload with compression, to send in one request
+ * (likely secrets are redacted)
+ */
+export async function buildReviewPayload(
+  files: ChangedFile[],
+  target: ReviewTarget = resolveReviewTarget(),
+  options: SubmitOptions = {}
+): Promise<any> {
+  return buildPayloadFromTexts(files, target, options, await readFileTexts(files, target));
+}
+
+/**
+ * Build the review payload from the files' patches and contents
  */
-export function buildReviewPayload(files: ChangedFile[]): any {
-  const repoPath = getRepoPath();
+function buildPayloadFromTexts(files: ChangedFile[], target: ReviewTarget, options: SubmitOptions, texts: FileTexts): any {
   const repoName = getRepoName();
-  const currentBranch = getCurrentBranch();
-  const defaultBranch = getDefaultBranch();
-  const commitSha = getCommitSha();
   const remoteUrl = getRemoteUrl();
   
-  // Size threshold for compression (10KB)
-  const COMPRESSION_THRESHOLD = 10 * 1024;
-  
   // Build files array with compression for large patches
+  const patterns = getSecretPatterns(options.secretPatterns);
+  
   const filesPayload = files.map(file => {
-    const isUntracked = file.status === 'untracked' || file.status === 'added';
-    const patch = getFileDiff(file.path, isUntracked);
-    const content = getFileContent(file.path);
+    // Binary files can't be read as text
+    const patch = file.binary ? '' : redactSecrets(texts.patches.get(file.path) || '', patterns);
+    const content = file.binary ? '' : redactSecrets(texts.contents.get(file.path) || '', patterns);
     
     const fileData: any = {
       filename: file.path,
       status: file.status === 'untracked' ? 'added' : file.status,
+      ...(file.oldPath ? { previous_filename: file.oldPath } : {}),
       additions: file.additions,
       deletions: file.deletions,
     };
@@ -198,12 +381,12 @@ export function buildReviewPayload(files: ChangedFile[]): any {
     },
     branches: {
       head: {
-        ref: currentBranch,
-        sha: commitSha
+        ref: target.head.ref,
+        sha: target.head.sha || getCommitSha()
       },
       base: {
-        ref: defaultBranch,
-        sha: ''
+        ref: target.base.ref,
+        sha: target.base.sha
       }
     },
     changes: {
@@ -212,62 +395,153 @@ export function buildReviewPayload(files: ChangedFile[]): any {
         additions: totalAdditions,
         deletions: totalDeletions
       },
-      commits: [],
+      commits: target.commits.map(commit => ({ ...commit, message: redactSecrets(commit.message, patterns) })),
       files: filesPayload,
-      fullDiff: getFullDiff() || 'No changes'
+      fullDiff: redactSecrets(texts.diffParts.map(part => part.text).join(''), patterns) || 'No changes'
     },
+    // Custom review instructions from the project config
+    ...(options.instructions ? { instructions: options.instructions } : {}),
     analysis_type: 'cli_analysis'
   };
 }
 
+export interface UploadProgress {
+  uploadedFiles: number;
+  totalFiles: number;
+  uploadedBytes: number;
+  totalBytes: number;
+}
+
 /**
- * Submit a review request to the API
+ * Split payload files into batches of at most UPLOAD_BATCH_SIZE bytes
+ * (a single larger file gets a batch of its own)
  */
-export async function submitReview(files: ChangedFile[]): Promise<ReviewResponse> {
-  const token = getAuthToken();
-  if (!token) {
-    throw new Error('Not authenticated');
-  }
+export function planUploadBatches(files: any[]): any[][] {
+  const batches: any[][] = [];
+  let current: any[] = [];
+  let size = 0;
+  files.forEach(file => {
+    const fileSize = Buffer.byteLength(JSON.stringify(file), 'utf-8');
+    if (current.length > 0 && size + fileSize > UPLOAD_BATCH_SIZE) {
+      batches.push(current);
+      current = [];
+      size = 0;
+    }
+    current.push(file);
+    size += fileSize;
+  });
+  if (current.length > 0) batches.push(current);
+  return batches;
+}
+
+/**
+ * Check whether a payload is big enough to be uploaded in batches
+ */
+export function needsBatchedUpload(payload: any): boolean {
+  return Buffer.byteLength(JSON.stringify(payload), 'utf-8') > BATCHED_UPLOAD_THRESHOLD;
+}
+
+/**
+ * Post JSON to an API endpoint, returning the parsed response
+ */
+async function postJson(url: string, body: unknown, action: string): Promise<any> {
+  const response = await authorizedFetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(body),
+    timeout: UPLOAD_TIMEOUT
+  });
   
-  const payload = buildReviewPayload(files);
+  if (!response.ok) {
+    throw await getResponseError(response, action);
+  }
   
-  const response = await fetch(`${API_BASE_URL}/api/extension/review`, {
+  return readJson(response);
+}
+
+/**
+ * Upload a large review in parts: open an upload session with the review
+ * details, send the files in size-bounded batches, then finalize. The
+ * combined diff is sent last, as references to the uploaded patches.
+ * @returns null if the server doesn't support batched uploads
+ */
+async function uploadInBatches(
+  payload: any,
+  fullDiffParts: FullDiffPart[],
+  onProgress?: (progress: UploadProgress) => void
+): Promise<ReviewResponse | null> {
+  const { files, fullDiff, ...changes } = payload.changes;
+  const baseUrl = `${getApiUrl()}/api/extension/review/sessions`;
+
+  const response = await authorizedFetch(baseUrl, {
     method: 'POST',
     headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${token}`
+      'Content-Type': 'application/json'
     },
-    body: JSON.stringify(payload)
+    body: JSON.stringify({ ...payload, changes })
   });
-  
+  if (response.status === 404 || response.status === 405) return null;
   if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`API error: ${response.status} - ${error}`);
+    throw await getResponseError(response, 'Failed to start upload');
+  }
+  const { session_id: sessionId } = await readJson(response);
+
+  const batches = planUploadBatches(files);
+  const batchSizes = batches.map(batch => Buffer.byteLength(JSON.stringify(batch), 'utf-8'));
+  const progress: UploadProgress = {
+    uploadedFiles: 0,
+    totalFiles: files.length,
+    uploadedBytes: 0,
+    totalBytes: batchSizes.reduce((sum, size) => sum + size, 0)
+  };
+  onProgress?.({ ...progress });
+
+  for (const [index, batch] of batches.entries()) {
+    await postJson(`${baseUrl}/${sessionId}/files`, { batch: index + 1, total_batches: batches.length, files: batch }, 'Failed to upload files');
+    progress.uploadedFiles += batch.length;
+    progress.uploadedBytes += batchSizes[index];
+    onProgress?.({ ...progress });
+  }
+
+  return postJson(`${baseUrl}/${sessionId}/finalize`, {
+    total_files: files.length,
+    full_diff_parts: fullDiffParts
+  }, 'Failed to finalize upload');
+}
+
+/**
+ * Submit a review request to the API. Large reviews are uploaded in
+ * batches (reporting progress) when the server supports it.
+ */
+export async function submitReview(
+  files: ChangedFile[],
+  target: ReviewTarget = resolveReviewTarget(),
+  options: SubmitOptions = {},
+  onProgress?: (progress: UploadProgress) => void
+): Promise<ReviewResponse> {
+  const { payload, fullDiffParts } = await assembleReview(files, target, options);
+  
+  if (needsBatchedUpload(payload)) {
+    const response = await uploadInBatches(payload, fullDiffParts, onProgress);
+    if (response) return response;
   }
   
-  return response.json();
+  return postJson(`${getApiUrl()}/api/extension/review`, payload, 'Failed to submit review');
 }
 
 /**
  * Poll for new comments
  */
 export async function pollComments(dataId: string): Promise<ReviewComment[]> {
-  const token = getAuthToken();
-  if (!token) {
-    throw new Error('Not authenticated');
-  }
-  
-  const response = await fetch(`${API_BASE_URL}/api/extension/comments/${dataId}`, {
-    headers: {
-      'Authorization': `Bearer ${token}`
-    }
-  });
+  const response = await authorizedFetch(`${getApiUrl()}/api/extension/comments/${dataId}`);
   
   if (!response.ok) {
-    throw new Error(`Failed to poll comments: ${response.status}`);
+    throw await getResponseError(response, 'Failed to poll comments');
   }
   
-  const data = await response.json();
+  const data = await readJson(response);
   return data.comments || [];
 }
 
@@ -275,41 +549,348 @@ export async function pollComments(dataId: string): Promise<ReviewComment[]> {
  * Get analysis status
  */
 export async function getAnalysisStatus(dataId: string): Promise<AnalysisStatus> {
-  const token = getAuthToken();
-  if (!token) {
-    throw new Error('Not authenticated');
+  const response = await authorizedFetch(`${getApiUrl()}/api/extension/status/${dataId}`);
+  
+  if (!response.ok) {
+    throw await getResponseError(response, 'Failed to get status');
   }
   
-  const response = await fetch(`${API_BASE_URL}/api/extension/status/${dataId}`, {
+  return readJson(response);
+}
+
+/**
+ * Stop an ongoing analysis
+ */
+export async function stopAnalysis(dataId: string): Promise<void> {
+  const response = await authorizedFetch(`${getApiUrl()}/api/extension/stop/${dataId}`, {
+    method: 'POST'
+  });
+  
+  if (!response.ok) {
+    throw await getResponseError(response, 'Failed to stop analysis');
+  }
+}
+
+export type AnalysisState = AnalysisStatus['analysis_status'];
+
+export type ReviewEvent =
+  | { type: 'comment'; comment: ReviewComment }
+  | { type: 'status'; status: AnalysisState }
+  | { type: 'error'; error: Error }; // a failed request that will be retried
+
+export interface SubscribeOptions {
+  maxFailures?: number; // failed polls in a row before giving up (default 5)
+}
+
+export interface ReviewSubscription {
+  done: Promise<AnalysisState>; // the final status ('running' if closed early)
+  close(): void;
+}
+
+// Reconnect delays for a dropped stream, and failed connects in a row before polling instead
+const STREAM_RETRY_MIN = 1000;
+const STREAM_RETRY_MAX = 30000;
+const STREAM_MAX_FAILURES = 3;
+
+// Polling when streaming isn't available: quick while comments arrive, slower when quiet
+const POLL_MIN_INTERVAL = 2000;
+const POLL_MAX_INTERVAL = 30000;
+const POLL_MAX_FAILURES = 5;
+
+/**
+ * Read one connection of a review's event stream (Server-Sent Events or NDJSON).
+ * @returns the final status, null if the stream ended early,
+ *          or 'unsupported' if the server has no stream for this review
+ */
+async function readReviewStream(
+  dataId: string,
+  lastEventId: string | undefined,
+  signal: AbortSignal,
+  onMessage: (type: string, data: any, id?: string, retry?: number) => AnalysisState | void
+): Promise<AnalysisState | null | 'unsupported'> {
+  const response = await authorizedFetch(`${getApiUrl()}/api/extension/stream/${dataId}`, {
     headers: {
-      'Authorization': `Bearer ${token}`
+      'Accept': 'text/event-stream, application/x-ndjson',
+      ...(lastEventId ? { 'Last-Event-ID': lastEventId } : {})
+    },
+    signal,
+    stream: true
+  });
+
+  const contentType = response.headers.get('content-type') || '';
+  const isSse = contentType.includes('text/event-stream');
+  const isNdjson = contentType.includes('ndjson') || contentType.includes('jsonl');
+  if ([404, 405, 406, 501].includes(response.status) || (response.ok && !isSse && !isNdjson)) {
+    await response.body?.cancel().catch(() => {});
+    return 'unsupported';
+  }
+  if (!response.ok || !response.body) {
+    throw await getResponseError(response, 'Failed to stream comments');
+  }
+
+  // SSE fields of the event being read
+  let event = { type: '', data: [] as string[], id: undefined as string | undefined, retry: undefined as number | undefined };
+
+  const handleLine = (line: string): AnalysisState | void => {
+    if (isNdjson) {
+      if (!line.trim()) return;
+      const message = JSON.parse(line);
+      return onMessage(message.type, message, message.id !== undefined ? String(message.id) : undefined);
     }
+    if (line === '') {
+      const { type, data, id, retry } = event;
+      event = { type: '', data: [], id: undefined, retry: undefined };
+      if (data.length === 0) return;
+      const message = JSON.parse(data.join('\n'));
+      return onMessage(type || message.type, message, id, retry);
+    }
+    if (line.startsWith(':')) return; // keep-alive comment
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.substring(0, colon);
+    const value = colon === -1 ? '' : line.substring(colon + 1).replace(/^ /, '');
+    if (field === 'event') event.type = value;
+    else if (field === 'data') event.data.push(value);
+    else if (field === 'id') event.id = value;
+    else if (field === 'retry' && /^\d+$/.test(value)) event.retry = parseInt(value, 10);
+  };
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for await (const chunk of response.body) {
+    buffer += decoder.decode(chunk, { stream: true });
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      // Leaving the loop cancels the response body
+      const status = handleLine(line);
+      if (status) return status;
+    }
+  }
+  return null;
+}
+
+/**
+ * Follow a running analysis: comments and status changes are streamed as
+ * they happen, reconnecting with Last-Event-ID when the connection drops.
+ * Falls back to polling (backing off while nothing changes) when the server
+ * doesn't stream. Each comment is delivered once. Failed requests are
+ * reported as error events and retried; rejected credentials end it.
+ */
+export function subscribeToReview(
+  dataId: string,
+  onEvent: (event: ReviewEvent) => void,
+  options: SubscribeOptions = {}
+): ReviewSubscription {
+  const maxFailures = options.maxFailures ?? POLL_MAX_FAILURES;
+  const controller = new AbortController();
+  const seen = new Set<string>();
+  let lastEventId: string | undefined;
+
+  const emitComments = (comments: ReviewComment[]): number => {
+    const fresh = comments.filter(c => !seen.has(c.id));
+    fresh.forEach(c => {
+      seen.add(c.id);
+      onEvent({ type: 'comment', comment: c });
+    });
+    return fresh.length;
+  };
+
+  const sleep = (ms: number) => new Promise<void>(resolve => {
+    const timer = setTimeout(resolve, ms);
+    controller.signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
   });
+
+  // Returns the final status, or null to poll instead
+  const stream = async (): Promise<AnalysisState | null> => {
+    let failures = 0;
+    let retryDelay = STREAM_RETRY_MIN; // the server may change it with `retry:`
+    let delay = retryDelay;
+
+    while (!controller.signal.aborted) {
+      let received = false;
+      try {
+        const result = await readReviewStream(dataId, lastEventId, controller.signal, (type, data, id, retry) => {
+          if (id) lastEventId = id;
+          if (retry !== undefined) retryDelay = retry;
+          received = true;
+          failures = 0;
+          delay = retryDelay;
+
+          if (type === 'comment' || type === 'comments') {
+            const comments = Array.isArray(data) ? data : data.comments || [data.comment || data];
+            emitComments(comments);
+          } else if (type === 'status') {
+            const status: AnalysisState = data.analysis_status || data.status;
+            onEvent({ type: 'status', status });
+            if (status !== 'running') return status;
+          }
+        });
+        if (result === 'unsupported') return null;
+        if (result) return result;
+        // A stream that keeps closing without sending anything is as good as none
+        if (!received && ++failures >= STREAM_MAX_FAILURES) return null;
+      } catch (error) {
+        if (controller.signal.aborted) break;
+        if (error instanceof AuthError) throw error;
+        onEvent({ type: 'error', error: error instanceof Error ? error : new Error(String(error)) });
+        if (++failures >= STREAM_MAX_FAILURES) return null;
+      }
+      await sleep(delay);
+      delay = Math.min(delay * 2, STREAM_RETRY_MAX);
+    }
+    return 'running';
+  };
+
+  const poll = async (): Promise<AnalysisState> => {
+    let interval = POLL_MIN_INTERVAL;
+    let failures = 0;
+
+    while (!controller.signal.aborted) {
+      try {
+        const fresh = emitComments(await pollComments(dataId));
+        const { analysis_status: status } = await getAnalysisStatus(dataId);
+        failures = 0;
+        if (status !== 'running') {
+          // Pick up anything posted just before completion
+          emitComments(await pollComments(dataId));
+          onEvent({ type: 'status', status });
+          return status;
+        }
+        interval = fresh > 0 ? POLL_MIN_INTERVAL : Math.min(interval * 2, POLL_MAX_INTERVAL);
+      } catch (error) {
+        if (controller.signal.aborted) break;
+        if (error instanceof AuthError || ++failures >= maxFailures) throw error;
+        onEvent({ type: 'error', error: error instanceof Error ? error : new Error(String(error)) });
+        interval = Math.min(interval * 2, POLL_MAX_INTERVAL);
+      }
+      await sleep(interval);
+    }
+    return 'running';
+  };
+
+  const done = stream().then(status => status ?? poll());
+  done.catch(() => {}).finally(() => controller.abort());
+
+  return {
+    done,
+    close: () => controller.abort()
+  };
+}
+
+/**
+ * Look up the account a token belongs to.
+ * Returns null when the server can't tell (e.g. no whoami endpoint);
+ * throws when the token is rejected.
+ */
+export async function getWhoami(token: string): Promise<Partial<BeetleConfig> | null> {
+  let response: Response;
+  try {
+    response = await request(`${getApiUrl()}/api/cli/whoami`, {
+      headers: {
+        'Authorization': `Bearer ${token}`
+      }
+    });
+  } catch {
+    return null;
+  }
   
-  if (!response.ok) {
-    throw new Error(`Failed to get status: ${response.status}`);
+  if (response.status === 401 || response.status === 403) {
+    throw new AuthError('Token was rejected by the server', response.status);
   }
+  if (!response.ok) return null;
   
-  return response.json();
+  const data = await readJson(response).catch(() => null);
+  if (!data) return null;
+  return {
+    userId: data.userId,
+    email: data.email,
+    firstName: data.firstName,
+    lastName: data.lastName,
+    imageUrl: data.imageUrl,
+  };
 }
 
 /**
- * Stop an ongoing analysis
+ * Exchange the code from the browser login for tokens (PKCE, RFC 7636)
  */
-export async function stopAnalysis(dataId: string): Promise<void> {
-  const token = getAuthToken();
-  if (!token) {
-    throw new Error('Not authenticated');
+export async function exchangeAuthCode(
+  code: string,
+  codeVerifier: string,
+  redirectUri: string
+): Promise<{ token: string; refreshToken?: string }> {
+  const response = await request(`${getApiUrl()}/api/cli/token`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({
+      grant_type: 'authorization_code',
+      code,
+      code_verifier: codeVerifier,
+      redirect_uri: redirectUri
+    })
+  });
+  
+  const data = await readJson(response).catch(() => ({}));
+  const token = data.access_token || data.token;
+  if (!response.ok || !token) {
+    throw new ApiError(`Failed to complete login: ${response.status}${data.error ? ` - ${data.error}` : ''}`, response.status);
   }
   
-  const response = await fetch(`${API_BASE_URL}/api/extension/stop/${dataId}`, {
+  return { token, refreshToken: data.refresh_token };
+}
+
+/**
+ * Start a device-code login (RFC 8628)
+ */
+export async function requestDeviceCode(): Promise<DeviceCodeResponse> {
+  const response = await request(`${getApiUrl()}/api/cli/device/code`, {
     method: 'POST',
     headers: {
-      'Authorization': `Bearer ${token}`
-    }
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ client: 'beetle-cli' })
   });
   
   if (!response.ok) {
-    throw new Error(`Failed to stop analysis: ${response.status}`);
+    throw await getResponseError(response, 'Failed to start device login');
+  }
+  
+  return readJson(response);
+}
+
+/**
+ * Poll for the token of a device-code login.
+ * Throws once the code is denied or has expired.
+ */
+export async function requestDeviceToken(deviceCode: string): Promise<DeviceTokenResult> {
+  const response = await request(`${getApiUrl()}/api/cli/device/token`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ device_code: deviceCode })
+  });
+  
+  const data = await readJson(response).catch(() => ({}));
+  
+  if (response.ok && (data.access_token || data.token)) {
+    return { status: 'approved', token: data.access_token || data.token, refreshToken: data.refresh_token };
+  }
+  
+  switch (data.error) {
+    case 'authorization_pending':
+      return { status: 'pending' };
+    case 'slow_down':
+      return { status: 'slow_down' };
+    case 'access_denied':
+      throw new AuthError('Login was denied in the browser');
+    case 'expired_token':
+      throw new AuthError('The login code expired before it was approved. Run the command again to get a new code.');
+    default:
+      throw new ApiError(`Device login failed: ${response.status}${data.error ? ` - ${data.error}` : ''}`, response.status);
   }
 }
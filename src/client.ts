@@ -0,0 +1,156 @@
+import { fetch, Response, RequestInit } from 'undici';
+import { ApiError, AuthError, RateLimitError, PayloadTooLargeError, NetworkError } from './errors.js';
+import { getDispatcher } from './network.js';
+
+export interface RequestOptions extends RequestInit {
+  timeout?: number;  // ms until the whole response has arrived (just the headers for streams)
+  retries?: number;  // extra attempts after a network error, 5xx or 429
+  stream?: boolean;  // hand back the body unread, e.g. for Server-Sent Events
+}
+
+// Defaults for API requests
+const DEFAULT_TIMEOUT = 30 * 1000;
+const DEFAULT_RETRIES = 3;
+
+// Backoff between attempts: exponential with full jitter, and the longest Retry-After we wait for
+const RETRY_BASE_DELAY = 500;
+const RETRY_MAX_DELAY = 10 * 1000;
+const MAX_RETRY_AFTER = 60 * 1000;
+
+// Statuses worth retrying. Requests that change something (e.g. submitting
+// a review) are only retried when the server certainly didn't process them.
+const RETRYABLE_STATUSES = [429, 500, 502, 503, 504];
+const RETRYABLE_UNSAFE_STATUSES = [429, 503];
+
+/**
+ * Parse a Retry-After header (seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(value) - Date.now();
+  return Number.isFinite(ms) ? Math.max(0, ms) : undefined;
+}
+
+/**
+ * Wait before the next attempt, unless the request is aborted
+ */
+function wait(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+/**
+ * Send one attempt, failing with a NetworkError if it can't complete in time
+ */
+async function attempt(url: string, options: RequestOptions, timeout: number): Promise<Response> {
+  // Proxies and extra CA certificates need a dispatcher (otherwise undici's default is used)
+  const dispatcher = getDispatcher() ?? undefined;
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeout);
+  const signal = options.signal ? AbortSignal.any([options.signal, controller.signal]) : controller.signal;
+
+  try {
+    const response = await fetch(url, { ...options, signal, dispatcher });
+    // Streams stay open as long as the server keeps sending
+    if (options.stream) return response;
+    // Read the body while the timer runs, so a stalled response times out too
+    const body = await response.arrayBuffer();
+    return new Response(response.status === 204 ? null : body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers
+    });
+  } catch (error) {
+    if (options.signal?.aborted) throw error;
+    const host = new URL(url).host;
+    if (controller.signal.aborted) {
+      throw new NetworkError(`Request to ${host} timed out after ${timeout / 1000}s`, error, true);
+    }
+    const reason = (error as any)?.cause?.code || (error as Error)?.message || 'unknown error';
+    throw new NetworkError(`Could not reach ${host} (${reason})`, error);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Fetch with a timeout, retrying network errors, 5xx and 429 responses with
+ * jittered exponential backoff (honouring Retry-After).
+ * Non-2xx responses that can't be retried are returned for the caller to handle.
+ */
+export async function request(url: string, options: RequestOptions = {}): Promise<Response> {
+  const timeout = options.timeout ?? DEFAULT_TIMEOUT;
+  const retries = options.retries ?? DEFAULT_RETRIES;
+  const method = (options.method || 'GET').toUpperCase();
+  const safe = method === 'GET' || method === 'HEAD';
+  const retryable = safe ? RETRYABLE_STATUSES : RETRYABLE_UNSAFE_STATUSES;
+
+  for (let attemptNumber = 0; ; attemptNumber++) {
+    let response: Response | undefined;
+    try {
+      response = await attempt(url, options, timeout);
+    } catch (error) {
+      // A timed-out request may still have been processed, so only safe ones are retried
+      if (!(error instanceof NetworkError) || attemptNumber >= retries || (!safe && error.timedOut)) throw error;
+    }
+
+    if (response && (!retryable.includes(response.status) || attemptNumber >= retries)) {
+      return response;
+    }
+
+    const backoff = Math.random() * Math.min(RETRY_MAX_DELAY, RETRY_BASE_DELAY * 2 ** attemptNumber);
+    const retryAfter = parseRetryAfter(response?.headers.get('retry-after') ?? null);
+    if (response && response.status === 429 && retryAfter !== undefined && retryAfter > MAX_RETRY_AFTER) {
+      return response; // Not worth waiting for; let the caller report it
+    }
+    await response?.body?.cancel().catch(() => {});
+    await wait(retryAfter ?? backoff, options.signal);
+    if (options.signal?.aborted) throw options.signal.reason;
+  }
+}
+
+/**
+ * Read a response body as JSON. Callers check the fields they use.
+ */
+export async function readJson(response: Response): Promise<any> {
+  return response.json();
+}
+
+/**
+ * Build a typed error for a failed response, using the server's message when it sends one
+ */
+export async function getResponseError(response: Response, action: string): Promise<ApiError> {
+  const text = await response.text().catch(() => '');
+  let detail = text.trim().substring(0, 200);
+  try {
+    const data = JSON.parse(text);
+    detail = data.error_description || data.message || data.error || detail;
+  } catch {
+    // Plain text (or empty) body
+  }
+  const message = `${action}: ${response.status}${detail ? ` - ${detail}` : ''}`;
+
+  switch (response.status) {
+    case 401:
+    case 403:
+      return new AuthError(message, response.status);
+    case 413:
+      return new PayloadTooLargeError(
+        `${action}: the review is too large to upload (413). ` +
+        `Exclude files with .beetleignore or review fewer changes at once.`
+      );
+    case 429: {
+      const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+      const wait = retryAfter !== undefined ? ` Try again in ${Math.ceil(retryAfter / 1000)}s.` : ' Try again later.';
+      return new RateLimitError(`${action}: rate limited by the Beetle API.${wait}`, retryAfter);
+    }
+    default:
+      return new ApiError(message, response.status);
+  }
+}
@@ -1,5 +1,7 @@
 import http from 'http';
-import { intro, outro, spinner, note, cancel, isCancel } from '@clack/prompts';
+import fs from 'fs';
+import crypto from 'crypto';
+import { intro, outro, spinner, note, cancel, isCancel, confirm } from '@clack/prompts';
 import pc from 'picocolors';
 import open from 'open';
 import { 
@@ -7,19 +9,45 @@ import {
   clearAuth, 
   isAuthenticated, 
   getConfig, 
-  getConfigPath 
+  getConfigPath,
+  getAuthToken,
+  getAuthSource,
+  getWebUrl,
+  getApiUrl,
+  setUrlOverrides,
+  getUrlOverrides,
+  getActiveProfileName,
+  getDefaultProfileName,
+  listProfiles,
+  switchProfile,
+  BeetleConfig
 } from '../config.js';
+import { requestDeviceCode, requestDeviceToken, getWhoami, exchangeAuthCode } from '../api.js';
+import { decodeJwt, getTokenExpiry, validateToken } from '../token.js';
+import { getNetworkSettings, redactProxyUrl } from '../network.js';
 
-// Base URL for beetle web app
-const BEETLE_WEB_URL = process.env.BEETLE_WEB_URL || 'https://beetleai.dev';
+// Warn in `auth status` when the token expires sooner than this
+const EXPIRY_WARNING = 3 * 24 * 60 * 60 * 1000;
+
+// The callback server only listens on loopback
+const CALLBACK_HOST = '127.0.0.1';
+
+// How long to wait for the browser to call back
+const CALLBACK_TIMEOUT = 5 * 60 * 1000;
+
+// Tokens handed back by a login flow
+interface LoginResult {
+  token: string;
+  refreshToken?: string;
+}
 
 /**
  * Find an available port for the local auth callback server
  */
-function findAvailablePort(): Promise<number> {
+export function findAvailablePort(): Promise<number> {
   return new Promise((resolve, reject) => {
     const server = http.createServer();
-    server.listen(0, () => {
+    server.listen(0, CALLBACK_HOST, () => {
       const address = server.address();
       if (address && typeof address === 'object') {
         const port = address.port;
@@ -33,34 +61,38 @@ function findAvailablePort(): Promise<number> {
 }
 
 /**
- * Decode JWT token to extract user details (without verification)
+ * Escape text for inclusion in HTML
  */
-function decodeJwt(token: string): Record<string, unknown> | null {
-  try {
-    const parts = token.split('.');
-    if (parts.length !== 3) return null;
-    const payload = Buffer.from(parts[1], 'base64').toString('utf-8');
-    return JSON.parse(payload);
-  } catch {
-    return null;
-  }
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
 }
 
 /**
- * Start local HTTP server and wait for auth callback
+ * Random URL-safe string for the state nonce and PKCE verifier
  */
-function waitForAuthCallback(port: number): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const server = http.createServer((req, res) => {
-      const url = new URL(req.url || '/', `http://localhost:${port}`);
-      
-      if (url.pathname === '/callback') {
-        const token = url.searchParams.get('token');
-        const error = url.searchParams.get('error');
-        
-        // Send response to browser
-        res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
-        res.end(`
+function randomUrlSafe(bytes: number): string {
+  return crypto.randomBytes(bytes).toString('base64url');
+}
+
+/**
+ * Compare two strings without leaking where they differ
+ */
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+}
+
+/**
+ * Render the page shown in the browser after the callback
+ */
+function renderCallbackPage(error: string | null): string {
+  return `
           <!DOCTYPE html>
           <html>
             <head>
@@ -89,21 +121,75 @@ function waitForAuthCallback(port: number): Promise<string> {
               <div class="container">
                 <div class="icon">${error ? '❌' : '✅'}</div>
                 <h1>${error ? 'Authentication Failed' : 'Authentication Successful!'}</h1>
-                <p>${error ? error : 'You can close this window and return to the terminal.'}</p>
+                <p>${error ? escapeHtml(error) : 'You can close this window and return to the terminal.'}</p>
               </div>
             </body>
           </html>
-        `);
+        `;
+}
+
+// A browser login in progress: where to send the user, and what only the CLI knows
+export interface BrowserLogin {
+  authUrl: string;
+  redirectUri: string;
+  state: string;
+  codeVerifier: string;
+}
+
+/**
+ * Prepare a browser login calling back to the given port.
+ * PKCE: the browser only ever sees the challenge; the verifier stays here.
+ */
+export function createBrowserLogin(port: number): BrowserLogin {
+  const state = randomUrlSafe(16);
+  const codeVerifier = randomUrlSafe(32);
+  const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+  const redirectUri = `http://${CALLBACK_HOST}:${port}/callback`;
+  
+  const params = new URLSearchParams({
+    source: 'cli',
+    port: String(port),
+    redirect_uri: redirectUri,
+    state,
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256'
+  });
+  return { authUrl: `${getWebUrl()}/sign-in?${params}`, redirectUri, state, codeVerifier };
+}
+
+/**
+ * Start local HTTP server (on 127.0.0.1 only) and wait for the auth callback.
+ * Callbacks without the expected state are rejected and the server keeps waiting.
+ * @returns the authorization code to exchange for tokens
+ */
+export function waitForAuthCallback(port: number, state: string, timeoutMs: number = CALLBACK_TIMEOUT): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const server = http.createServer((req, res) => {
+      const url = new URL(req.url || '/', `http://${CALLBACK_HOST}:${port}`);
+      
+      if (url.pathname === '/callback') {
+        // Ignore callbacks that didn't come from the login we started
+        if (!safeEqual(url.searchParams.get('state') || '', state)) {
+          res.writeHead(400, { 'Content-Type': 'text/html; charset=utf-8' });
+          res.end(renderCallbackPage('Invalid or missing state. Start the login again from the terminal.'));
+          return;
+        }
+        
+        const code = url.searchParams.get('code');
+        const error = url.searchParams.get('error') || (code ? null : 'No authorization code received');
+        
+        // Send response to browser
+        res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+        res.end(renderCallbackPage(error));
         
         // Close server and resolve/reject
+        clearTimeout(timeout);
         server.close();
         
         if (error) {
           reject(new Error(error));
-        } else if (token) {
-          resolve(token);
         } else {
-          reject(new Error('No token received'));
+          resolve(code as string);
         }
       } else {
         res.writeHead(404);
@@ -111,30 +197,192 @@ function waitForAuthCallback(port: number): Promise<string> {
       }
     });
     
-    server.listen(port, () => {
+    server.on('error', reject);
+    server.listen(port, CALLBACK_HOST, () => {
       // Server is ready
     });
     
-    // Timeout after 5 minutes
-    setTimeout(() => {
+    const timeout = setTimeout(() => {
       server.close();
       reject(new Error('Authentication timed out'));
-    }, 5 * 60 * 1000);
+    }, timeoutMs);
   });
 }
 
+/**
+ * Wait for a device-code login to be approved on another machine
+ */
+export async function waitForDeviceApproval(deviceCode: string, expiresIn: number, interval: number): Promise<LoginResult> {
+  const deadline = Date.now() + expiresIn * 1000;
+  let delay = interval * 1000;
+
+  while (Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, delay));
+    const result = await requestDeviceToken(deviceCode);
+    if (result.status === 'approved') return { token: result.token, refreshToken: result.refreshToken };
+    // Back off when the server asks us to poll less often
+    if (result.status === 'slow_down') delay += 5000;
+  }
+
+  throw new Error('The login code expired before it was approved. Run the command again to get a new code.');
+}
+
+/**
+ * Describe how far away a time is, e.g. "in 5 hours"
+ */
+function formatTimeUntil(date: Date): string {
+  const hours = Math.max(0, Math.round((date.getTime() - Date.now()) / (60 * 60 * 1000)));
+  if (hours < 1) return 'in less than an hour';
+  if (hours < 48) return `in ${hours} hour${hours === 1 ? '' : 's'}`;
+  return `in ${Math.round(hours / 24)} days`;
+}
+
+/**
+ * Read a token piped on stdin
+ */
+async function readTokenFromStdin(): Promise<string> {
+  if (process.stdin.isTTY) {
+    throw new Error(`--with-token reads the token from stdin, e.g. ${pc.cyan('beetle auth login --with-token < token.txt')}`);
+  }
+  
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.from(chunk));
+  }
+  
+  const token = Buffer.concat(chunks).toString('utf-8').trim();
+  if (!token) {
+    throw new Error('No token received on stdin');
+  }
+  return token;
+}
+
+/**
+ * Get the user details carried in a token
+ */
+function getTokenDetails(token: string): Partial<BeetleConfig> {
+  const payload = decodeJwt(token);
+  return {
+    userId: payload?.userId as string,
+    email: payload?.email as string,
+    firstName: payload?.firstName as string,
+    lastName: payload?.lastName as string,
+    imageUrl: payload?.imageUrl as string,
+  };
+}
+
+/**
+ * Save the tokens received from a login flow, with the service URLs the
+ * login used. The first profile logged in to becomes the default; others
+ * only with `beetle auth switch`.
+ * @returns the logged-in email
+ */
+function completeLogin(login: LoginResult, details: Partial<BeetleConfig> = getTokenDetails(login.token)): string {
+  // Always overwrite the refresh token so a stale one isn't kept
+  saveAuth(login.token, { ...details, refreshToken: login.refreshToken, ...getUrlOverrides() });
+  const name = getActiveProfileName();
+  if (!listProfiles().some(p => p.name !== name && p.config.authToken)) {
+    switchProfile(name);
+  }
+  return details.email || 'Unknown';
+}
+
+/**
+ * Describe where a login was saved, and how to make its profile the default
+ */
+function describeLogin(email: string): string {
+  const name = getActiveProfileName();
+  return `Logged in as ${pc.cyan(email)}\n` +
+    `Token saved to ${pc.dim(getConfigPath())} (profile ${pc.cyan(name)})` +
+    (name !== getDefaultProfileName() ? `\n\nRun ${pc.cyan(`beetle auth switch ${name}`)} to make it the default.` : '');
+}
+
+/**
+ * Log in through the browser and the local callback server
+ */
+async function authenticateWithBrowser(s: ReturnType<typeof spinner>): Promise<LoginResult> {
+  // Find available port
+  s.start('Preparing authentication...');
+  const port = await findAvailablePort();
+  s.stop('Ready to authenticate');
+  
+  const { authUrl, redirectUri, state, codeVerifier } = createBrowserLogin(port);
+  
+  note(
+    `Opening browser to authenticate...\n\n` +
+    `If browser doesn't open, visit:\n${pc.dim(authUrl)}`,
+    'Browser Authentication'
+  );
+  
+  // Open browser (the URL above still works if this fails)
+  await open(authUrl).catch(() => {});
+  
+  // Wait for callback, then trade the code for tokens
+  s.start('Waiting for authentication...');
+  const code = await waitForAuthCallback(port, state);
+  return exchangeAuthCode(code, codeVerifier, redirectUri);
+}
+
+/**
+ * Ask the user to log in again after their session expired.
+ * Only prompts in an interactive terminal with a saved login.
+ * @returns true if the user logged in again
+ */
+export async function reauthenticate(): Promise<boolean> {
+  if (!process.stdin.isTTY || !process.stdout.isTTY || process.env.CI) return false;
+  if (getAuthSource() === 'env') return false;
+  
+  note(
+    `Your Beetle session has expired.\n` +
+    `Log in again to continue where you left off.`,
+    'Session Expired'
+  );
+  const shouldLogin = await confirm({ message: 'Log in again now?' });
+  if (isCancel(shouldLogin) || !shouldLogin) return false;
+  
+  const s = spinner();
+  try {
+    const email = completeLogin(await authenticateWithBrowser(s));
+    s.stop(`Logged in as ${pc.cyan(email)}`);
+    return true;
+  } catch (error) {
+    s.stop(pc.red(`Login failed: ${error instanceof Error ? error.message : 'Unknown error'}`));
+    return false;
+  }
+}
+
 /**
  * Handle the login command
  */
-export async function loginCommand(): Promise<void> {
+export async function loginCommand(
+  options: { device?: boolean; withToken?: boolean; apiUrl?: string; webUrl?: string } = {}
+): Promise<void> {
   intro(pc.bgCyan(pc.black(' beetle auth login ')));
   
+  // The login uses these URLs; they are saved to the profile only if it succeeds
+  setUrlOverrides({ apiUrl: options.apiUrl, webUrl: options.webUrl });
+  
+  if (options.withToken) {
+    await loginWithToken();
+    return;
+  }
+  
+  if (getAuthSource() === 'env') {
+    note(
+      `${pc.cyan('BEETLE_TOKEN')} is set and takes precedence over a saved login.\n` +
+      `Unset it first to log in interactively.`,
+      'Using Environment Token'
+    );
+    outro(pc.dim('No action taken.'));
+    return;
+  }
+  
   // Check if already authenticated
   if (isAuthenticated()) {
     const config = getConfig();
     note(
-      `You are already logged in as ${pc.cyan(config.email || 'Unknown')}.\n` +
-      `Run ${pc.dim('beetle auth logout')} first to switch accounts.`,
+      `Profile ${pc.cyan(getActiveProfileName())} is already logged in as ${pc.cyan(config.email || 'Unknown')}.\n` +
+      `Run ${pc.dim('beetle auth logout')} first, or add another account with ${pc.dim('beetle auth login --profile <name>')}.`,
       'Already Authenticated'
     );
     outro(pc.dim('No action taken.'));
@@ -144,45 +392,39 @@ export async function loginCommand(): Promise<void> {
   const s = spinner();
   
   try {
-    // Find available port
-    s.start('Preparing authentication...');
-    const port = await findAvailablePort();
-    s.stop('Ready to authenticate');
-    
-    // Build auth URL
-    const authUrl = `${BEETLE_WEB_URL}/sign-in?source=cli&port=${port}`;
-    
-    note(
-      `Opening browser to authenticate...\n\n` +
-      `If browser doesn't open, visit:\n${pc.dim(authUrl)}`,
-      'Browser Authentication'
-    );
-    
-    // Open browser
-    await open(authUrl);
-    
-    // Wait for callback
-    s.start('Waiting for authentication...');
-    const token = await waitForAuthCallback(port);
-    
-    // Decode token to get user details
-    const payload = decodeJwt(token);
+    if (options.device) {
+      // Device flow: approve on any machine with a browser
+      s.start('Requesting login code...');
+      const code = await requestDeviceCode();
+      s.stop('Login code ready');
+      
+      note(
+        `On any device with a browser, visit:\n${pc.cyan(code.verification_uri)}\n\n` +
+        `and enter the code: ${pc.bold(pc.cyan(code.user_code))}` +
+        (code.verification_uri_complete ? `\n\nOr open directly:\n${pc.dim(code.verification_uri_complete)}` : ''),
+        'Device Login'
+      );
+      
+      s.start('Waiting for approval...');
+      const login = await waitForDeviceApproval(code.device_code, code.expires_in, code.interval || 5);
+      const email = completeLogin(login);
+      s.stop('Authenticated successfully!');
+      
+      note(
+        describeLogin(email),
+        'Success'
+      );
+      
+      outro(pc.green('✓ You are now authenticated!'));
+      process.exit(0);
+    }
     
-    // Save auth
-    saveAuth(token, {
-      userId: payload?.userId as string,
-      email: payload?.email as string,
-      firstName: payload?.firstName as string,
-      lastName: payload?.lastName as string,
-      imageUrl: payload?.imageUrl as string,
-    });
+    const email = completeLogin(await authenticateWithBrowser(s));
     
     s.stop('Authenticated successfully!');
     
-    const email = (payload?.email as string) || 'Unknown';
     note(
-      `Logged in as ${pc.cyan(email)}\n` +
-      `Token saved to ${pc.dim(getConfigPath())}`,
+      describeLogin(email),
       'Success'
     );
     
@@ -203,6 +445,36 @@ export async function loginCommand(): Promise<void> {
   }
 }
 
+/**
+ * Log in with a token piped on stdin (for automation)
+ */
+async function loginWithToken(): Promise<void> {
+  const s = spinner();
+  
+  try {
+    const token = await readTokenFromStdin();
+    
+    s.start('Validating token...');
+    validateToken(token);
+    const details = { ...getTokenDetails(token), ...await getWhoami(token) };
+    const email = completeLogin({ token }, details);
+    s.stop('Token is valid');
+    
+    note(
+      describeLogin(email),
+      'Success'
+    );
+    outro(pc.green('✓ You are now authenticated!'));
+    
+  } catch (error) {
+    s.stop('Token rejected');
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    note(pc.red(message), 'Error');
+    outro(pc.red('✗ Authentication failed.'));
+    process.exit(1);
+  }
+}
+
 /**
  * Handle the logout command
  */
@@ -215,11 +487,26 @@ export async function logoutCommand(): Promise<void> {
     return;
   }
   
+  // An environment token can't be removed from here
+  if (!getConfig().authToken) {
+    note(
+      `You are authenticated through ${pc.cyan('BEETLE_TOKEN')}.\n` +
+      `Unset the environment variable to log out.`,
+      'Environment Token'
+    );
+    outro(pc.dim('No action taken.'));
+    return;
+  }
+  
   const config = getConfig();
   const email = config.email || 'Unknown';
   
   clearAuth();
   
+  if (getAuthSource() === 'env') {
+    note(pc.yellow(`${pc.cyan('BEETLE_TOKEN')} is still set and will keep being used.`), 'Note');
+  }
+  
   note(
     `Logged out from ${pc.cyan(email)}\n` +
     `Token removed from ${pc.dim(getConfigPath())}`,
@@ -229,6 +516,24 @@ export async function logoutCommand(): Promise<void> {
   outro(pc.green('✓ Successfully logged out.'));
 }
 
+/**
+ * Show the effective network settings (proxy and trusted CA files)
+ */
+function showNetworkSettings(): void {
+  const { proxy, noProxy, caFiles } = getNetworkSettings();
+  const from = (source: string) => pc.dim(`(${source})`);
+  const details = [
+    `API: ${pc.cyan(getApiUrl())}`,
+    `Proxy: ${proxy ? `${redactProxyUrl(proxy.value)} ${from(proxy.source)}` : pc.dim('none')}`,
+    ...(proxy && noProxy ? [`No proxy: ${noProxy.value} ${from(noProxy.source)}`] : []),
+    ...caFiles.map(({ value, source }) =>
+      `CA file: ${value} ${from(source)}${fs.existsSync(value) ? '' : ` ${pc.red('not found')}`}`
+    ),
+    pc.dim('Environment variables win over the network settings in config.json.'),
+  ].join('\n');
+  note(details, 'Network');
+}
+
 /**
  * Handle the auth status command
  */
@@ -241,18 +546,100 @@ export async function statusCommand(): Promise<void> {
       `Run ${pc.cyan('beetle auth login')} to authenticate.`,
       'Not Authenticated'
     );
+    showNetworkSettings();
     outro(pc.dim('Status: logged out'));
     return;
   }
   
-  const config = getConfig();
+  const source = getAuthSource();
+  const token = getAuthToken() as string;
+  // Environment tokens aren't saved with user details, so read them from the token
+  const config = source === 'env' ? getTokenDetails(token) : getConfig();
+  const expiry = getTokenExpiry(token);
+  const expired = !!expiry && expiry.getTime() <= Date.now();
+  const expiringSoon = !!expiry && !expired && expiry.getTime() - Date.now() < EXPIRY_WARNING;
+  // Saved logins with a refresh token renew themselves on the next request
+  const canRefresh = source === 'config' && !!getConfig().refreshToken;
   
   const details = [
+    `Profile: ${pc.cyan(getActiveProfileName())}`,
     `Email: ${pc.cyan(config.email || 'Unknown')}`,
     `Name: ${config.firstName || ''} ${config.lastName || ''}`.trim() || 'Not set',
+    `Source: ${source === 'env' ? 'BEETLE_TOKEN environment variable' : 'config file'}`,
+    ...(expiry ? [`Expires: ${expired ? pc.red(expiry.toLocaleString()) : expiringSoon ? pc.yellow(expiry.toLocaleString()) : expiry.toLocaleString()}`] : []),
+    ...(canRefresh ? [`Refresh: ${pc.green('automatic')}`] : []),
     `Config: ${pc.dim(getConfigPath())}`,
   ].join('\n');
   
   note(details, 'Authenticated');
+  showNetworkSettings();
+  if (expired && canRefresh) {
+    outro(pc.yellow('! Status: token expired - it will be refreshed on the next request'));
+    return;
+  }
+  if (expired) {
+    const fix = source === 'env' ? `update ${pc.cyan('BEETLE_TOKEN')}` : `run ${pc.cyan('beetle auth login')} again`;
+    outro(pc.red(`✗ Status: token expired - ${fix}`));
+    return;
+  }
+  if (expiringSoon && !canRefresh) {
+    outro(pc.yellow(`! Status: logged in - token expires ${formatTimeUntil(expiry as Date)}`));
+    return;
+  }
   outro(pc.green('✓ Status: logged in'));
 }
+
+/**
+ * Handle the auth list command - show all profiles
+ */
+export async function listCommand(): Promise<void> {
+  intro(pc.bgCyan(pc.black(' beetle auth list ')));
+  
+  const profiles = listProfiles();
+  if (profiles.length === 0) {
+    note(
+      `No profiles yet.\n\n` +
+      `Run ${pc.cyan('beetle auth login')} to create one.`,
+      'Profiles'
+    );
+    outro(pc.dim('Nothing to show.'));
+    return;
+  }
+  
+  profiles.forEach(({ name, config, active }) => {
+    const marker = active ? pc.green('●') : ' ';
+    const account = config.authToken ? pc.cyan(config.email || 'Unknown') : pc.dim('logged out');
+    const urls = [config.apiUrl, config.webUrl].filter(Boolean).join(', ');
+    console.log(`  ${marker} ${name.padEnd(16)} ${account}${urls ? `  ${pc.dim(urls)}` : ''}`);
+  });
+  console.log();
+  
+  outro(`Run ${pc.cyan('beetle auth switch <profile>')} to change the default profile.`);
+}
+
+/**
+ * Handle the auth switch command - change the default profile
+ */
+export async function switchCommand(name: string): Promise<void> {
+  intro(pc.bgCyan(pc.black(' beetle auth switch ')));
+  
+  try {
+    switchProfile(name);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    note(
+      `${message}.\n\n` +
+      `Run ${pc.cyan(`beetle auth login --profile ${name}`)} to create it.`,
+      'Unknown Profile'
+    );
+    outro(pc.red('✗ Profile not changed.'));
+    process.exit(1);
+  }
+  
+  if (process.env.BEETLE_PROFILE && process.env.BEETLE_PROFILE !== name) {
+    note(pc.yellow(`${pc.cyan('BEETLE_PROFILE')} is set and overrides the default in this shell.`), 'Note');
+  }
+  
+  const email = listProfiles().find(p => p.name === name)?.config.email;
+  outro(pc.green(`✓ Now using profile ${pc.cyan(name)}${email ? ` (${email})` : ''}`));
+}
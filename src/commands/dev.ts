@@ -0,0 +1,85 @@
+import { intro, outro, note } from '@clack/prompts';
+import pc from 'picocolors';
+import { startMockServer, MOCK_SCENARIOS, MockScenario } from '../mock-server.js';
+
+/**
+ * Color a response status for the request log
+ */
+function formatStatus(status: number): string {
+  if (status >= 500) return pc.red(String(status));
+  if (status >= 400) return pc.yellow(String(status));
+  return pc.green(String(status));
+}
+
+/**
+ * Parse a non-negative number option
+ */
+function parseNumberOption(value: string | undefined, name: string): number | undefined {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < 0) {
+    throw new Error(`--${name} must be a non-negative number (got "${value}")`);
+  }
+  return number;
+}
+
+/**
+ * Handle the dev mock-server command - serve a local imitation of the
+ * review API until interrupted
+ */
+export async function mockServerCommand(options: {
+  port?: string;
+  host?: string;
+  scenario?: string;
+  comments?: string;
+  interval?: string;
+  latency?: string;
+  stream?: boolean;
+} = {}): Promise<void> {
+  intro(pc.bgCyan(pc.black(' beetle mock server ')));
+
+  const scenario = (options.scenario || 'trickle') as MockScenario;
+  if (!MOCK_SCENARIOS.includes(scenario)) {
+    note(pc.red(`Unknown scenario "${options.scenario}". Use one of: ${MOCK_SCENARIOS.join(', ')}`), 'Error');
+    process.exit(1);
+  }
+
+  let server;
+  try {
+    server = await startMockServer({
+      port: parseNumberOption(options.port, 'port'),
+      host: options.host,
+      scenario,
+      comments: parseNumberOption(options.comments, 'comments'),
+      interval: parseNumberOption(options.interval, 'interval'),
+      latency: parseNumberOption(options.latency, 'latency'),
+      stream: options.stream,
+      onRequest: (method, url, status) => {
+        console.log(`  ${pc.dim(new Date().toLocaleTimeString())} ${method.padEnd(5)} ${url} ${formatStatus(status)}`);
+      }
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    note(pc.red(message), 'Error');
+    process.exit(1);
+  }
+
+  note(
+    `Scenario: ${pc.cyan(scenario)}${options.stream === false ? pc.dim(' (no event stream)') : ''}\n\n` +
+    `Point the CLI at it from another shell:\n\n` +
+    `  ${pc.cyan(`export BEETLE_API_URL=${server.url}`)}\n` +
+    `  ${pc.cyan('export BEETLE_TOKEN=mock')}\n\n` +
+    `Any token is accepted.`,
+    `Listening on ${server.url}`
+  );
+  // Plain line for scripts to pick up
+  console.log(`BEETLE_API_URL=${server.url}\n`);
+
+  await new Promise<void>(resolve => {
+    process.once('SIGINT', resolve);
+    process.once('SIGTERM', resolve);
+  });
+
+  await server.close();
+  outro(pc.dim('Mock server stopped.'));
+}
@@ -0,0 +1,85 @@
+import { intro, outro, note, confirm, isCancel, cancel } from '@clack/prompts';
+import pc from 'picocolors';
+import { requireAuth, requireGitRepo } from '../guards.js';
+import { pollComments, ReviewComment } from '../api.js';
+import { parseCommentMetadata, getCommentFingerprint } from '../comments.js';
+import { buildFixPatch, previewFixPatch, applyFixPatch, ReviewedSource } from '../fix.js';
+import { setTriageStatus } from '../triage.js';
+import { findStoredComment, findReview, ReviewRecord } from '../history.js';
+
+/**
+ * Colorize a unified diff preview for the terminal
+ */
+function colorizeDiff(lines: string[]): string {
+  return lines.map(line => {
+    if (line.startsWith('@@')) return pc.cyan(line);
+    if (line.startsWith('---') || line.startsWith('+++')) return pc.bold(line);
+    if (line.startsWith('+')) return pc.green(line);
+    if (line.startsWith('-')) return pc.red(line);
+    return line;
+  }).join('\n');
+}
+
+/**
+ * Handle the fix command - apply a comment's suggested fix to the working tree
+ */
+export async function fixCommand(commentId: string, options: { review?: string; yes?: boolean } = {}): Promise<void> {
+  intro(pc.bgCyan(pc.black(' beetle fix ')));
+
+  if (!requireGitRepo()) process.exit(1);
+  // Only fetching from the API needs an account; local history doesn't
+  if (options.review && !requireAuth()) process.exit(1);
+
+  try {
+    let comment: ReviewComment | undefined;
+    let record: ReviewRecord | null = null;
+    if (options.review) {
+      const comments = await pollComments(options.review);
+      comment = comments.find(c => c.id === commentId);
+      if (!comment) {
+        throw new Error(`Comment ${commentId} not found in review ${options.review}`);
+      }
+      // The local copy of the review knows what the files looked like
+      record = findReview(options.review);
+    } else {
+      const stored = findStoredComment(commentId);
+      comment = stored?.comment;
+      record = stored?.review || null;
+      if (!comment) {
+        throw new Error(
+          `Comment ${commentId} not found in local history. ` +
+          `Pass the review it belongs to with --review <dataId>.`
+        );
+      }
+    }
+
+    const { title } = parseCommentMetadata(comment.content);
+    const reviewed: ReviewedSource = {
+      snippet: record?.snippets?.[comment.id],
+      fileHash: record?.fileHashes?.[comment.file_path]
+    };
+    const patch = buildFixPatch(comment, reviewed);
+
+    note(colorizeDiff(previewFixPatch(patch)), title);
+
+    if (!options.yes) {
+      const shouldApply = await confirm({ message: 'Apply this fix?' });
+      if (isCancel(shouldApply) || !shouldApply) {
+        cancel('Fix not applied.');
+        return;
+      }
+    }
+
+    // The stored fingerprint, or one from the reviewed lines (the fix changes the current ones)
+    const fingerprint = record?.fingerprints?.[comment.id] ?? getCommentFingerprint(comment, reviewed.snippet);
+    const line = applyFixPatch(patch);
+    setTriageStatus(fingerprint, 'resolved', { file: comment.file_path, title });
+    outro(pc.green(`✓ Fix applied to ${patch.filePath}:${line}`));
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    note(pc.red(message), 'Error');
+    outro(pc.red('✗ Fix not applied.'));
+    process.exit(1);
+  }
+}
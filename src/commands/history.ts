@@ -0,0 +1,76 @@
+import { intro, outro, note } from '@clack/prompts';
+import pc from 'picocolors';
+import { requireGitRepo, getRepoPath } from '../guards.js';
+import { listReviews, findReview } from '../history.js';
+import { openStoredReview } from './review.js';
+
+/**
+ * Format an ISO timestamp for the history table
+ */
+function formatDate(iso: string): string {
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return iso;
+  return date.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+/**
+ * Handle the history command - list past reviews
+ */
+export async function historyCommand(options: { all?: boolean; limit?: string } = {}): Promise<void> {
+  intro(pc.bgCyan(pc.black(' beetle history ')));
+
+  if (!options.all && !requireGitRepo()) process.exit(1);
+
+  const limit = options.limit ? parseInt(options.limit, 10) || 20 : 20;
+  const reviews = listReviews(options.all ? undefined : getRepoPath());
+
+  if (reviews.length === 0) {
+    note(
+      `No stored reviews yet.\n\n` +
+      `Run ${pc.cyan('beetle review')} to create one.`,
+      'History'
+    );
+    outro(pc.dim('Nothing to show.'));
+    return;
+  }
+
+  reviews.slice(0, limit).forEach(r => {
+    const status = r.status === 'completed' ? pc.green(r.status) : pc.yellow(r.status);
+    const count = `${r.comments.length} comment${r.comments.length === 1 ? '' : 's'}`;
+    const repo = options.all ? `${pc.dim(r.repoName)} ` : '';
+    console.log(
+      `  ${pc.cyan(r.dataId.padEnd(14))} ${pc.dim(formatDate(r.createdAt).padEnd(22))} ` +
+      `${repo}${r.branch} ${pc.dim(`@ ${r.commitSha.substring(0, 7)}`)}  ` +
+      `${r.files.length} files, ${count}  ${status}`
+    );
+  });
+  console.log();
+
+  if (reviews.length > limit) {
+    console.log(pc.dim(`  ... and ${reviews.length - limit} more (use --limit)\n`));
+  }
+
+  outro(`Run ${pc.cyan('beetle show <id>')} to reopen a review.`);
+}
+
+/**
+ * Handle the show command - reopen a stored review in the review UI
+ */
+export async function showCommand(id?: string): Promise<void> {
+  let record;
+  try {
+    record = id ? findReview(id) : listReviews(getRepoPath())[0] || null;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.log(pc.red(`✗ ${message}`));
+    process.exit(1);
+  }
+
+  if (!record) {
+    console.log(pc.red(id ? `✗ No stored review matches "${id}".` : '✗ No stored reviews for this repository.'));
+    console.log(pc.dim(`  Run ${pc.cyan('beetle history')} to list stored reviews.`));
+    process.exit(1);
+  }
+
+  openStoredReview(record);
+}
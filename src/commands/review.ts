@@ -2,17 +2,57 @@ import gradient from 'gradient-string';
 import pc from 'picocolors';
 import readline from 'readline';
 import path from 'path';
+import fs from 'fs';
 import { execSync } from 'child_process';
 import { 
   requireAuth, 
   requireGitRepo, 
   getRepoPath, 
-  getCurrentBranch, 
-  getDefaultBranch,
   getAuthUser 
 } from '../guards.js';
-import { getChangedFiles, GitChanges } from '../git.js';
-import { submitReview, pollComments, getAnalysisStatus, stopAnalysis, ReviewComment } from '../api.js';
+import { getChangedFiles, resolveReviewTarget, GitChanges, ReviewTarget } from '../git.js';
+import { 
+  submitReview, 
+  pollComments, 
+  subscribeToReview, 
+  stopAnalysis, 
+  ensureValidAuth, 
+  setReauthenticateHandler, 
+  scanForSecrets, 
+  buildReviewPayload, 
+  COMPRESSION_THRESHOLD, 
+  BATCHED_UPLOAD_THRESHOLD, 
+  needsBatchedUpload, 
+  planUploadBatches, 
+  SubmitOptions, 
+  UploadProgress, 
+  ReviewComment 
+} from '../api.js';
+import { 
+  parseCommentMetadata, 
+  getCommentSeverity, 
+  getCommentFingerprint, 
+  meetsSeverity, 
+  isSeverity, 
+  normalizeSeverity, 
+  SEVERITY_LEVELS, 
+  Severity 
+} from '../comments.js';
+import { buildSarifLog } from '../sarif.js';
+import { buildFixPatch, previewFixPatch, applyFixPatch, captureSnippets, snapshotFiles, hashContent, FixPatch } from '../fix.js';
+import { parseFilterQuery, isEmptyFilter, matchesFilter } from '../filter.js';
+import { saveReview, getTargetInfo, findReview, findRunningReview, ReviewRecord, ReviewTargetInfo } from '../history.js';
+import { loadTriage, setTriageStatus, getActiveStatus, TriageEntry, TriageStatus } from '../triage.js';
+import { resolveReviewSettings, applyReviewSettings, ExcludedFile, ResolvedSettings } from '../settings.js';
+import { SecretFinding } from '../secrets.js';
+import { decodePayload, summarizePayload, formatBytes } from '../payload.js';
+import { 
+  buildCommentRecord, 
+  buildJsonReport, 
+  buildSummary, 
+  buildEvent, 
+  ReviewRunStatus 
+} from '../report.js';
 
 // BEETLE gradient
 const beetleGradient = gradient(['#5ea58e', '#6bb85f', '#64b394', '#a5ce59', '#dfc48f']);
@@ -36,9 +76,6 @@ const LOADING_MESSAGES = [
   'Hunting for edge cases...',
 ];
 
-// Polling interval (30 seconds)
-const POLL_INTERVAL = 30000;
-
 // ==============================================================
 // Types
 // ==============================================================
@@ -60,11 +97,40 @@ interface ReviewState {
   leftPanelScrollOffset: number; // scroll offset for left panel in detail mode
   totalComments: number;
   resolvedComments: number;
-  status: 'running' | 'completed' | 'failed';
+  triage: Record<string, TriageEntry>; // persisted resolved/dismissed/snoozed state by fingerprint
+  fingerprints: Map<string, string>; // comment id -> fingerprint (from the reviewed lines)
+  showHandled: boolean; // show (greyed out) comments that were already handled
+  fileSnapshots: Map<string, string>; // file contents at review time (new reviews only)
+  fileHashes: Record<string, string>; // hash of each reviewed file
+  snippets: Map<string, string[]>; // comment id -> the lines it flagged, as reviewed
+  pendingFix?: FixPatch; // fix awaiting confirmation in detail view
+  notice?: string; // transient message shown in the footer
+  filterQuery: string; // `/` filter, e.g. "sev:high path:src/ auth"
+  filterEditing: boolean; // true while typing the filter
+  status: 'running' | 'completed' | 'failed' | 'interrupted';
+  connectionLost?: string; // last error while the API can't be reached
   spinnerFrame: number;
 }
 
-async function runPromptOnlyMode(changes: GitChanges): Promise<void> {
+/**
+ * Hash snapshotted files for the review history
+ */
+function hashSnapshots(snapshots: Map<string, string>): Record<string, string> {
+  return Object.fromEntries([...snapshots].map(([file, content]) => [file, hashContent(content)]));
+}
+
+/**
+ * Describe a batched upload's progress, with a bar when a width is given
+ */
+function formatUploadProgress(progress: UploadProgress, barWidth?: number): string {
+  const { uploadedFiles, totalFiles, uploadedBytes, totalBytes } = progress;
+  const text = `Uploaded ${uploadedFiles}/${totalFiles} files (${formatBytes(uploadedBytes)} of ${formatBytes(totalBytes)})`;
+  if (!barWidth) return text;
+  const filled = Math.round((totalBytes > 0 ? uploadedBytes / totalBytes : 1) * barWidth);
+  return `${pc.cyan('━'.repeat(filled))}${pc.dim('━'.repeat(barWidth - filled))}  ${text}`;
+}
+
+async function runPromptOnlyMode(changes: GitChanges, target: ReviewTarget, submitOptions: SubmitOptions = {}): Promise<void> {
   let currentDataId: string | undefined;
   let spinnerInterval: NodeJS.Timeout | null = null;
   const spinnerFrames = ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏'];
@@ -98,50 +164,47 @@ async function runPromptOnlyMode(changes: GitChanges): Promise<void> {
 
   try {
     console.log(pc.yellow('  → Submitting review...'));
-    const response = await submitReview(changes.files);
+    const snapshots = await snapshotFiles(changes.files, target);
+    const response = await submitReview(changes.files, target, submitOptions, progress => {
+      if (progress.uploadedFiles > 0) console.log(pc.dim(`    ${formatUploadProgress(progress)}`));
+    });
     const dataId = response.extension_data_id;
     currentDataId = dataId;
     
     console.log(pc.green('  ✓ Review started. Streaming AI prompts...\n'));
     startSpinner();
     
-    // Track processed comments to avoid duplicates
-    const processedCommentIds = new Set<string>();
-    
-    // Poll loop
-    let status = 'running';
-    while (status === 'running') {
-      const comments = await pollComments(dataId);
-      
-      let gotNew = false;
-      // Process new comments
-      comments.forEach(c => {
-        if (!processedCommentIds.has(c.id)) {
-          processedCommentIds.add(c.id);
-          const { aiPrompt, title } = parseCommentMetadata(c.content);
-          
-          if (aiPrompt) {
-            gotNew = true;
-            stopSpinner();
-            console.log(pc.bold(pc.cyan(`\n● ${title || 'Issue'}`)));
-            console.log(pc.dim('─'.repeat(40)));
-            console.log(aiPrompt.trim());
-            console.log('');
-          }
-        }
-      });
-      
-      if (gotNew) startSpinner();
-      
-      const analysis = await getAnalysisStatus(dataId);
-      status = analysis.analysis_status;
+    // Print each comment's prompt as soon as it arrives
+    const receivedComments: ReviewComment[] = [];
+    const subscription = subscribeToReview(dataId, event => {
+      if (event.type !== 'comment') return;
+      const c = event.comment;
+      receivedComments.push(c);
+      const { aiPrompt, title } = parseCommentMetadata(c.content);
       
-      if (status === 'running') {
-        await new Promise(resolve => setTimeout(resolve, 5000));
+      if (aiPrompt) {
+        stopSpinner();
+        console.log(pc.bold(pc.cyan(`\n● ${title || 'Issue'}`)));
+        console.log(pc.dim('─'.repeat(40)));
+        console.log(aiPrompt.trim());
+        console.log('');
+        startSpinner();
       }
-    }
+    });
+    const status = await subscription.done;
     
     stopSpinner();
+    try {
+      saveReview({
+        dataId,
+        info: getTargetInfo(target),
+        files: changes.files.map(f => f.path),
+        comments: receivedComments,
+        status,
+        fileHashes: hashSnapshots(snapshots),
+        snippets: captureSnippets(receivedComments, { snapshots })
+      });
+    } catch {}
     if (status === 'failed') {
       console.log(pc.red('\n✗ Analysis failed.'));
       process.exit(1);
@@ -157,6 +220,231 @@ async function runPromptOnlyMode(changes: GitChanges): Promise<void> {
   }
 }
 
+// ==============================================================
+// CI / Headless Mode
+// ==============================================================
+
+// Exit codes for headless CI runs
+const CI_EXIT_OK = 0;
+const CI_EXIT_FINDINGS = 1;
+const CI_EXIT_ERROR = 2;
+const CI_EXIT_TIMEOUT = 3;
+
+// Default timeout for CI runs (seconds)
+const CI_DEFAULT_TIMEOUT = 30 * 60;
+
+// Supported output formats for headless runs
+const OUTPUT_FORMATS = ['text', 'sarif', 'json', 'jsonl'] as const;
+type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+interface CiOptions {
+  failOn?: Severity;
+  timeout: number; // seconds
+  format: OutputFormat;
+  output?: string;
+  submit: SubmitOptions;
+}
+
+/**
+ * Print a plain-text summary of all comments for CI logs
+ */
+function printCiSummary(comments: ReviewComment[], log: (msg?: string) => void, failOn?: Severity): void {
+  const { total, bySeverity } = buildSummary(comments);
+
+  log(pc.bold(`\nBeetle review: ${total} comment${total === 1 ? '' : 's'}`));
+  log(SEVERITY_LEVELS.map(s => `  ${s}: ${bySeverity[s]}`).join('\n'));
+
+  if (comments.length > 0) {
+    log();
+    comments.forEach(c => {
+      const severity = getCommentSeverity(c);
+      const { title } = parseCommentMetadata(c.content);
+      const marker = failOn && meetsSeverity(severity, failOn) ? pc.red('✗') : pc.dim('•');
+      log(`${marker} [${severity}] ${c.file_path}:${c.line_start} ${title}`);
+    });
+  }
+}
+
+/**
+ * Write output to the report file or stdout
+ */
+function writeOutput(data: string, options: CiOptions, append: boolean = false): void {
+  if (options.output) {
+    const target = path.resolve(options.output);
+    if (append) fs.appendFileSync(target, data, 'utf-8');
+    else fs.writeFileSync(target, data, 'utf-8');
+  } else {
+    process.stdout.write(data);
+  }
+}
+
+/**
+ * Write the final machine-readable report (sarif / json)
+ */
+function writeReport(dataId: string | null, status: ReviewRunStatus, comments: ReviewComment[], options: CiOptions): void {
+  if (options.format === 'sarif') {
+    writeOutput(JSON.stringify(buildSarifLog(comments, status), null, 2) + '\n', options);
+  } else if (options.format === 'json') {
+    writeOutput(JSON.stringify(buildJsonReport(dataId, status, comments), null, 2) + '\n', options);
+  }
+}
+
+/**
+ * Build the review payload without submitting it, and show what would be uploaded.
+ * The decoded payload goes to --output (or stdout); the size breakdown to stderr.
+ */
+async function runDryRun(changes: GitChanges, target: ReviewTarget, submitOptions: SubmitOptions, output?: string): Promise<void> {
+  const log = (msg: string = '') => console.error(msg);
+  
+  const payload = await buildReviewPayload(changes.files, target, submitOptions);
+  const summary = summarizePayload(payload);
+  const json = JSON.stringify(decodePayload(payload), null, 2) + '\n';
+  
+  if (output) {
+    fs.writeFileSync(path.resolve(output), json, 'utf-8');
+  } else {
+    process.stdout.write(json);
+  }
+  
+  log(pc.bold(`\nDry run: ${summary.files.length} file${summary.files.length === 1 ? '' : 's'} would be uploaded (nothing was sent)\n`));
+  const nameWidth = Math.min(60, Math.max(4, ...summary.files.map(f => f.filename.length)));
+  log(pc.dim(`  ${'File'.padEnd(nameWidth)}  ${'Patch'.padStart(9)}  ${'Content'.padStart(9)}  ${'Sent'.padStart(9)}  Compressed`));
+  summary.files.forEach(f => {
+    log(
+      `  ${f.filename.padEnd(nameWidth)}  ${formatBytes(f.patchBytes).padStart(9)}  ` +
+      `${formatBytes(f.contentBytes).padStart(9)}  ${formatBytes(f.uploadedBytes).padStart(9)}  ` +
+      (f.compressed.length > 0 ? pc.yellow(f.compressed.join(', ')) : pc.dim('-'))
+    );
+  });
+  log();
+  log(`  Payload: ${formatBytes(summary.rawBytes)} decoded, ${formatBytes(summary.uploadBytes)} as sent, ${formatBytes(summary.gzipBytes)} gzipped`);
+  log(pc.dim(`  Fields over ${formatBytes(COMPRESSION_THRESHOLD)} are gzipped and base64-encoded before upload.`));
+  if (needsBatchedUpload(payload)) {
+    const batches = planUploadBatches(payload.changes.files).length;
+    log(pc.dim(`  Over ${formatBytes(BATCHED_UPLOAD_THRESHOLD)}: files would be uploaded in ${batches} batches, and the combined diff as references to them.`));
+  }
+  if (output) log(pc.green(`\n✓ Payload written to ${output}`));
+}
+
+async function runCiMode(changes: GitChanges, target: ReviewTarget, options: CiOptions): Promise<void> {
+  // Keep stdout clean when the report itself is written there
+  const log = options.format !== 'text' && !options.output
+    ? (msg: string = '') => console.error(msg)
+    : (msg: string = '') => console.log(msg);
+
+  // JSONL events stream as they happen
+  const emit = (event: Parameters<typeof buildEvent>[0]) => {
+    if (options.format === 'jsonl') {
+      writeOutput(JSON.stringify(buildEvent(event)) + '\n', options, true);
+    }
+  };
+  if (options.format === 'jsonl' && options.output) {
+    writeOutput('', options); // truncate previous run
+  }
+
+  if (changes.totalFiles === 0) {
+    log('No changes detected. Nothing to review.');
+    writeReport(null, 'completed', [], options);
+    process.exit(CI_EXIT_OK);
+  }
+
+  const deadline = Date.now() + options.timeout * 1000;
+  let dataId: string | null = null;
+
+  // Collect comments as they arrive, emitting each new one once
+  const collected = new Map<string, ReviewComment>();
+  const collect = (comments: ReviewComment[]) => {
+    comments.forEach(c => {
+      if (collected.has(c.id)) return;
+      collected.set(c.id, c);
+      emit({ type: 'comment', dataId: dataId!, comment: buildCommentRecord(c) });
+    });
+  };
+
+  try {
+    log(`Submitting ${changes.totalFiles} file${changes.totalFiles === 1 ? '' : 's'} for review...`);
+    const snapshots = await snapshotFiles(changes.files, target);
+    const response = await submitReview(changes.files, target, options.submit, progress => {
+      if (progress.uploadedFiles > 0) log(pc.dim(`  ${formatUploadProgress(progress)}`));
+    });
+    const id = response.extension_data_id;
+    dataId = id;
+    log(`Review started (${id}). Waiting for analysis to finish...`);
+    emit({ type: 'review.started', dataId: id, files: changes.files.map(f => f.path) });
+    emit({ type: 'status', dataId: id, status: 'running' });
+
+    const subscription = subscribeToReview(id, event => {
+      if (event.type === 'comment') collect([event.comment]);
+    });
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<'timeout'>(resolve => {
+      timer = setTimeout(() => resolve('timeout'), Math.max(0, deadline - Date.now()));
+    });
+    const result = await Promise.race([subscription.done, timedOut]);
+    clearTimeout(timer);
+
+    if (result === 'timeout') {
+      subscription.close();
+      await stopAnalysis(id).catch(() => {});
+      const comments = [...collected.values()];
+      emit({ type: 'status', dataId: id, status: 'timeout' });
+      emit({ type: 'review.completed', dataId: id, status: 'timeout', summary: buildSummary(comments) });
+      // Partial results still make a report, marked as timed out
+      writeReport(id, 'timeout', comments, options);
+      log(pc.red(`\n✗ Analysis timed out after ${options.timeout}s (${comments.length} comment${comments.length === 1 ? '' : 's'} received).`));
+      if (options.output) {
+        log(pc.dim(`${options.format.toUpperCase()} report written to ${options.output}`));
+      }
+      process.exit(CI_EXIT_TIMEOUT);
+    }
+    const status = result;
+
+    // Final poll picks up anything posted just before completion
+    collect(await pollComments(id));
+    const comments = [...collected.values()];
+    try {
+      saveReview({
+        dataId: id,
+        info: getTargetInfo(target),
+        files: changes.files.map(f => f.path),
+        comments,
+        status,
+        fileHashes: hashSnapshots(snapshots),
+        snippets: captureSnippets(comments, { snapshots })
+      });
+    } catch {}
+    emit({ type: 'status', dataId: id, status });
+    emit({ type: 'review.completed', dataId: id, status, summary: buildSummary(comments) });
+
+    if (status !== 'completed') {
+      writeReport(id, status, comments, options);
+      log(pc.red(`\n✗ Analysis ${status}.`));
+      process.exit(CI_EXIT_ERROR);
+    }
+
+    printCiSummary(comments, log, options.failOn);
+    writeReport(id, status, comments, options);
+    if (options.output) {
+      log(pc.dim(`\n${options.format.toUpperCase()} report written to ${options.output}`));
+    }
+
+    const failOn = options.failOn;
+    const failing = failOn ? comments.filter(c => meetsSeverity(getCommentSeverity(c), failOn)) : [];
+    if (failing.length > 0) {
+      log(pc.red(`\n✗ ${failing.length} comment${failing.length === 1 ? '' : 's'} at or above ${failOn} severity.`));
+      process.exit(CI_EXIT_FINDINGS);
+    }
+
+    log(pc.green('\n✓ Review passed.'));
+    process.exit(CI_EXIT_OK);
+
+  } catch (error: any) {
+    emit({ type: 'error', dataId, message: error.message });
+    log(pc.red(`\n✗ Error: ${error.message}`));
+    process.exit(CI_EXIT_ERROR);
+  }
+}
+
 // ==============================================================
 // Terminal Utilities
 // ==============================================================
@@ -173,6 +461,8 @@ function clearScreen(): void {
 }
 
 function enterAlternateScreen(): void {
+  // Login prompts can't be drawn over the full-screen UI
+  setReauthenticateHandler(null);
   process.stdout.write('\x1B[?1049h');
   process.stdout.write('\x1B[?25l');
 }
@@ -307,95 +597,6 @@ function formatMarkdown(text: string, maxWidth: number): string[] {
   
   return result;
 }
-
-// ==============================================================
-// Comment Parsing
-// ==============================================================
-
-function parseCommentMetadata(content: string): {
-  title: string;
-  severity: string;
-  lineStart: number;
-  lineEnd: number;
-  description: string;
-  codeBlock: string;
-  aiPrompt: string;
-} {
-  // 1. Extract Metadata
-  const severityMatch = content.match(/\*\*Severity\*\*:\s*(\w+)/i);
-  const lineStartMatch = content.match(/\*\*Line_Start\*\*:\s*(\d+)/i);
-  const lineEndMatch = content.match(/\*\*Line_End\*\*:\s*(\d+)/i);
-  const titleMatch = content.match(/\*\*Title\*\*:\s*([^\n]+)/i);
-
-  // 2. Extract "Suggested Fix" (Code Block)
-  let codeBlock = '';
-  // Look for details with summary "Suggested Fix"
-  const fixMatch = content.match(/<details>\s*<summary>\s*Suggested Fix\s*<\/summary>([\s\S]*?)<\/details>/i);
-  if (fixMatch) {
-    codeBlock = fixMatch[1].trim();
-  } else {
-    // Fallback: look for generic code blocks if not in structured format (and not part of AI prompt)
-    // We try to avoid capturing the AI prompt code block here by checking context if possible, 
-    // but simple regex is trickier. For now, rely on specific structure if present.
-    const genericMatches = content.match(/```[\s\S]*?```/g);
-    if (genericMatches && genericMatches.length > 0) {
-        // If we have "Suggested Fix" wrapper, we used it. If not, maybe the first code block is relevant code?
-        // But in the new format, Suggested Fix is always wrapped.
-    }
-  }
-
-  // 3. Extract "Prompt for AI"
-  let aiPrompt = '';
-  const aiPromptMatch = content.match(/<details>\s*<summary>\s*Prompt for AI\s*<\/summary>([\s\S]*?)<\/details>/i);
-  if (aiPromptMatch) {
-    const inner = aiPromptMatch[1];
-    // The prompt is often in a code block for easy copying
-    const innerCodeBlock = inner.match(/```(?:suggestion)?\s*([\s\S]*?)```/);
-    if (innerCodeBlock) {
-        aiPrompt = innerCodeBlock[1].trim();
-    } else {
-        // Fallback: remove the "Copy this..." header and take the rest
-        aiPrompt = inner.replace(/\*\*Copy this prompt.*?\*\*[\s\S]*?:/i, '').trim();
-    }
-  } else {
-     // Backward compatibility for other formats
-     const oldPromptMatch = content.match(/\*\*Prompt (?:for|to) (?:Fix with )?AI[^*]*\*\*:?\s*([\s\S]*?)(?:\n\n##|\n\n\*\*|$)/i);
-     if (oldPromptMatch) aiPrompt = oldPromptMatch[1].trim();
-  }
-
-  // 4. Extract Description (The primary text)
-  let description = content
-    .replace(/\[PR_COMMENT_START\]/g, '')
-    .replace(/\[PR_COMMENT_END\]/g, '')
-    .replace(/\*\*File\*\*:[^\n]*\n?/gi, '')
-    .replace(/\*\*Line_Start\*\*:[^\n]*\n?/gi, '')
-    .replace(/\*\*Line_End\*\*:[^\n]*\n?/gi, '')
-    .replace(/\*\*Severity\*\*:[^\n]*\n?/gi, '')
-    .replace(/\*\*Confidence\*\*:[^\n]*\n?/gi, '')
-    .replace(/\*\*Title\*\*:[^\n]*\n?/gi, '')
-    // Remove all detail blocks (Suggested Fix, Prompt for AI, etc.)
-    .replace(/<details>[\s\S]*?<\/details>/gi, '')
-    .trim();
-
-  // Determine Title (use explicit or derive from description)
-  let title = titleMatch?.[1] || '';
-  if (!title && description) {
-      // Use first non-empty line as title, truncate if needed
-      const firstLine = description.split('\n').find(l => l.trim().length > 0) || '';
-      title = firstLine.length > 60 ? firstLine.substring(0, 57) + '...' : firstLine;
-  }
-  if (!title) title = 'Issue Identified';
-
-  return {
-    title,
-    severity: severityMatch?.[1] || 'Medium',
-    lineStart: parseInt(lineStartMatch?.[1] || '0'),
-    lineEnd: parseInt(lineEndMatch?.[1] || '0'),
-    description,
-    codeBlock,
-    aiPrompt
-  };
-}
   
   function getSeverityBadge(severity: string): string {
     switch (severity.toLowerCase()) {
@@ -407,6 +608,14 @@ function parseCommentMetadata(content: string): {
     }
   }
   
+  function getTriageBadge(status: TriageStatus): string {
+    switch (status) {
+      case 'resolved': return pc.green('[✓]');
+      case 'dismissed': return pc.dim('[✗]');
+      case 'snoozed': return pc.dim('[z]');
+    }
+  }
+  
   function getSeverityColor(severity: string): (s: string) => string {
     switch (severity.toLowerCase()) {
       case 'critical': return pc.red;
@@ -440,9 +649,18 @@ function drawScrollbar(lines: string[], contentHeight: number, totalLines: numbe
   function renderFileList(state: ReviewState, width: number, maxHeight: number, scrollOffset: number = 0): { lines: string[]; totalLines: number } {
     const lines: string[] = [];
     
+    const visibleFiles = getVisibleFiles(state);
+    
     // Header (only if not scrolled)
     if (scrollOffset === 0) {
-      lines.push(pc.bold('Filter: ') + pc.dim('Press / to filter files'));
+      if (state.filterEditing) {
+        lines.push(pc.bold('Filter: ') + state.filterQuery + pc.cyan('█'));
+      } else if (state.filterQuery) {
+        const matchCount = visibleFiles.reduce((sum, v) => sum + v.commentIndices.length, 0);
+        lines.push(pc.bold('Filter: ') + pc.cyan(state.filterQuery) + pc.dim(` (${matchCount} matches, Esc to clear)`));
+      } else {
+        lines.push(pc.bold('Filter: ') + pc.dim('Press / to filter files'));
+      }
       lines.push(pc.dim('─'.repeat(width)));
       
       // Summary
@@ -452,8 +670,12 @@ function drawScrollbar(lines: string[], contentHeight: number, totalLines: numbe
       lines.push(''); // Empty line after header
     }
     
+    if (state.filterQuery && visibleFiles.length === 0) {
+      lines.push(pc.dim('  No comments match the filter'));
+    }
+    
     // Build flat list of navigable items
-    state.files.forEach((file, fIdx) => {
+    visibleFiles.forEach(({ file, fileIndex: fIdx, commentIndices }) => {
       const isFileSelected = fIdx === state.selectedFileIndex && state.selectedCommentIndex === -1;
       const prefix = isFileSelected ? pc.cyan('›') : ' ';
       const expandIcon = file.expanded ? '▼' : '▶';
@@ -461,8 +683,8 @@ function drawScrollbar(lines: string[], contentHeight: number, totalLines: numbe
       // Count by severity
       const counts: string[] = [];
       let critical = 0, high = 0, medium = 0;
-      file.comments.forEach(c => {
-        const { severity } = parseCommentMetadata(c.content);
+      commentIndices.forEach(cIdx => {
+        const { severity } = parseCommentMetadata(file.comments[cIdx].content);
         if (severity.toLowerCase() === 'critical') critical++;
         else if (severity.toLowerCase() === 'high') high++;
         else medium++;
@@ -483,11 +705,13 @@ function drawScrollbar(lines: string[], contentHeight: number, totalLines: numbe
       
       // Comments
       if (file.expanded) {
-        file.comments.forEach((comment, cIdx) => {
+        commentIndices.forEach(cIdx => {
+          const comment = file.comments[cIdx];
           const isCommentSelected = fIdx === state.selectedFileIndex && cIdx === state.selectedCommentIndex;
           const cPrefix = isCommentSelected ? pc.cyan('    ›') : '     ';
           const { title, severity } = parseCommentMetadata(comment.content);
-          const badge = getSeverityBadge(severity);
+          const triageStatus = getTriageStatus(state, comment);
+          const badge = triageStatus ? getTriageBadge(triageStatus) : getSeverityBadge(severity);
           
           // Calculate available width for title
           const cPrefixLen = stripAnsi(cPrefix).length;
@@ -495,7 +719,7 @@ function drawScrollbar(lines: string[], contentHeight: number, totalLines: numbe
           const titleWidth = width - cPrefixLen - badgeLen - 1; // 1 for space
           
           const truncatedTitle = truncate(title, Math.max(10, titleWidth));
-          lines.push(`${cPrefix} ${badge} ${truncatedTitle}`);
+          lines.push(`${cPrefix} ${badge} ${triageStatus ? pc.dim(truncatedTitle) : truncatedTitle}`);
         });
       }
     });
@@ -520,6 +744,12 @@ function drawScrollbar(lines: string[], contentHeight: number, totalLines: numbe
   }
   
   const comment = file.comments[state.selectedCommentIndex];
+  
+  // Fix preview replaces the detail content until confirmed or cancelled
+  if (state.pendingFix && state.pendingFix.commentId === comment.id) {
+    return renderFixPreview(state.pendingFix, width, maxHeight, scrollOffset);
+  }
+  
   const { title, severity, lineStart, lineEnd, description, codeBlock, aiPrompt } = parseCommentMetadata(comment.content);
   
   // Header (only if not scrolled)
@@ -661,6 +891,31 @@ function drawScrollbar(lines: string[], contentHeight: number, totalLines: numbe
   return { lines: scrolled.slice(0, maxHeight), totalLines };
 }
 
+function renderFixPreview(patch: FixPatch, width: number, maxHeight: number, scrollOffset: number = 0): { lines: string[]; totalLines: number } {
+  const lines: string[] = [];
+  
+  lines.push(pc.bold(pc.cyan('Apply Suggested Fix?')));
+  lines.push(pc.dim('─'.repeat(Math.min(width, 80))));
+  lines.push('');
+  
+  previewFixPatch(patch).forEach(line => {
+    const text = truncateLine(line, width - 2);
+    if (line.startsWith('@@')) lines.push(pc.cyan(text));
+    else if (line.startsWith('---') || line.startsWith('+++')) lines.push(pc.bold(text));
+    else if (line.startsWith('+')) lines.push(pc.green(text));
+    else if (line.startsWith('-')) lines.push(pc.red(text));
+    else lines.push(text);
+  });
+  
+  lines.push('');
+  lines.push(`${pc.green('y')}: Apply  |  ${pc.red('n/Esc')}: Cancel`);
+  
+  const totalLines = lines.length;
+  const maxScroll = Math.max(0, totalLines - maxHeight);
+  const scrolled = lines.slice(Math.min(scrollOffset, maxScroll));
+  return { lines: scrolled.slice(0, maxHeight), totalLines };
+}
+
 const MOUSE_ENABLE = '\x1B[?1000h\x1B[?1002h\x1B[?1015h\x1B[?1006h';
 const MOUSE_DISABLE = '\x1B[?1000l\x1B[?1002l\x1B[?1015l\x1B[?1006l';
 
@@ -733,8 +988,8 @@ function renderSplitView(state: ReviewState): void {
   // Split footer to ensure it fits
   const footer1 = `${scrollHint}  |  ${pc.dim('Tab: Switch Panel')}  |  ${pc.dim('Mouse: Scroll/Click')}`;
   const spinner = ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏'][(state.spinnerFrame || 0) % 10];
-  const statusMsg = state.status === 'running' ? pc.yellow(`${spinner} Reviewing...`) : pc.green(':: Done');
-  const footer2 = `${pc.dim('←/Esc: Back')}  |  ${pc.dim('c: Copy')}  |  ${pc.dim('q: Quit')}  |  ${statusMsg}`;
+  const statusMsg = getRunningStatus(state, spinner) || pc.green(':: Done');
+  const footer2 = `${pc.dim('←/Esc: Back')}  |  ${pc.dim('c: Copy')}  |  ${pc.dim('a: Apply Fix')}  |  ${pc.dim('r/d/s: Resolve/Dismiss/Snooze')}  |  ${pc.dim(state.status === 'running' ? 'D: Detach  |  q: Quit' : 'q: Quit')}  |  ${state.notice || statusMsg}`;
   
   const footer1Trunc = truncateLine(footer1, width);
   const footer2Trunc = truncateLine(footer2, width);
@@ -766,9 +1021,10 @@ function renderListView(state: ReviewState): void {
   
   // Status bar
   console.log(pc.dim('─'.repeat(width)));
-  console.log(`${pc.dim('↑↓: Navigate')}  |  ${pc.dim('→/↵: View Details')}  |  ${pc.dim('Tab: Expand/Collapse')}  |  ${pc.dim('q: Quit')}`);
+  console.log(`${pc.dim('↑↓: Navigate')}  |  ${pc.dim('→/↵: View Details')}  |  ${pc.dim('Tab: Expand/Collapse')}  |  ${pc.dim('/: Filter')}  |  ${pc.dim('r/d/s: Resolve/Dismiss/Snooze')}  |  ${pc.dim(`h: ${state.showHandled ? 'Hide' : 'Show'} Handled`)}  |  ${pc.dim(state.status === 'running' ? 'D: Detach  |  q: Quit' : 'q: Quit')}`);
   const spinner = ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏'][(state.spinnerFrame || 0) % 10];
-  console.log(state.status === 'running' ? pc.yellow(`${spinner} Reviewing...`) : pc.green(':: Review completed! 🎉'));
+  const statusMsg = getRunningStatus(state, spinner) || pc.green(':: Review completed! 🎉');
+  console.log(state.notice ? `${statusMsg}  |  ${state.notice}` : statusMsg);
 }
 
 function render(state: ReviewState): void {
@@ -783,33 +1039,108 @@ function render(state: ReviewState): void {
 // Navigation Logic
 // ==============================================================
 
-function getTotalNavigableItems(state: ReviewState): number {
-  let count = 0;
-  state.files.forEach(f => {
-    count++; // file itself
-    if (f.expanded) count += f.comments.length;
+interface VisibleFile {
+  fileIndex: number;
+  file: FileGroup;
+  commentIndices: number[]; // indices into file.comments that pass the filter
+}
+
+interface NavItem {
+  fileIndex: number;
+  commentIndex: number; // -1 = file header
+}
+
+function getVisibleFiles(state: ReviewState): VisibleFile[] {
+  const filter = parseFilterQuery(state.filterQuery);
+  const filtering = !isEmptyFilter(filter);
+  const isVisible = (c: ReviewComment) =>
+    (state.showHandled || !getTriageStatus(state, c)) && (!filtering || matchesFilter(filter, c));
+  
+  return state.files
+    .map((file, fileIndex) => ({
+      fileIndex,
+      file,
+      commentIndices: file.comments
+        .map((c, i) => (isVisible(c) ? i : -1))
+        .filter(i => i >= 0)
+    }))
+    .filter(v => v.commentIndices.length > 0);
+}
+
+function getNavigableItems(state: ReviewState): NavItem[] {
+  const items: NavItem[] = [];
+  getVisibleFiles(state).forEach(({ fileIndex, file, commentIndices }) => {
+    items.push({ fileIndex, commentIndex: -1 }); // file itself
+    if (file.expanded) {
+      commentIndices.forEach(commentIndex => items.push({ fileIndex, commentIndex }));
+    }
   });
-  return count;
+  return items;
+}
+
+function getTotalNavigableItems(state: ReviewState): number {
+  return getNavigableItems(state).length;
+}
+
+function getSelectedItemPosition(state: ReviewState, items: NavItem[]): number {
+  return items.findIndex(item => 
+    item.fileIndex === state.selectedFileIndex && item.commentIndex === state.selectedCommentIndex
+  );
+}
+
+function selectItem(state: ReviewState, item: NavItem | undefined): void {
+  if (!item) return;
+  state.selectedFileIndex = item.fileIndex;
+  state.selectedCommentIndex = item.commentIndex;
+}
+
+// Move selection onto a visible item if the filter hid it
+// (the item now at `preferredPosition` if given, else the first one)
+function ensureVisibleSelection(state: ReviewState, preferredPosition: number = 0): void {
+  const items = getNavigableItems(state);
+  if (getSelectedItemPosition(state, items) === -1) {
+    selectItem(state, items[Math.min(preferredPosition, items.length - 1)]);
+    if (preferredPosition === 0) state.leftPanelScrollOffset = 0;
+  }
+}
+
+// ==============================================================
+// Comment Triage
+// ==============================================================
+
+function getFingerprint(state: ReviewState, comment: ReviewComment): string {
+  let fingerprint = state.fingerprints.get(comment.id);
+  if (!fingerprint) {
+    fingerprint = getCommentFingerprint(comment, state.snippets.get(comment.id));
+    state.fingerprints.set(comment.id, fingerprint);
+  }
+  return fingerprint;
+}
+
+function getTriageStatus(state: ReviewState, comment: ReviewComment): TriageStatus | null {
+  return getActiveStatus(state.triage[getFingerprint(state, comment)]);
+}
+
+function updateResolvedCount(state: ReviewState): void {
+  state.resolvedComments = state.files.reduce(
+    (sum, f) => sum + f.comments.filter(c => getTriageStatus(state, c) === 'resolved').length, 0
+  );
+}
+
+function setCommentStatus(state: ReviewState, comment: ReviewComment, status: TriageStatus | null): void {
+  const { title } = parseCommentMetadata(comment.content);
+  state.triage = setTriageStatus(getFingerprint(state, comment), status, { file: comment.file_path, title });
+  updateResolvedCount(state);
 }
 
 function navigateUp(state: ReviewState): ReviewState {
-  const file = state.files[state.selectedFileIndex];
+  const items = getNavigableItems(state);
+  const position = getSelectedItemPosition(state, items);
   
-  if (state.selectedCommentIndex > 0) {
-    // Move up within comments
-    state.selectedCommentIndex--;
-  } else if (state.selectedCommentIndex === 0) {
-    // Move to file header
-    state.selectedCommentIndex = -1;
-  } else if (state.selectedFileIndex > 0) {
-    // Move to previous file
-    state.selectedFileIndex--;
-    const prevFile = state.files[state.selectedFileIndex];
-    if (prevFile.expanded && prevFile.comments.length > 0) {
-      state.selectedCommentIndex = prevFile.comments.length - 1;
-    } else {
-      state.selectedCommentIndex = -1;
-    }
+  if (position > 0) {
+    selectItem(state, items[position - 1]);
+  } else if (position === -1) {
+    selectItem(state, items[0]);
   }
   
   // Reset detail scroll when navigating (comment might have changed)
@@ -820,25 +1151,14 @@ function navigateUp(state: ReviewState): ReviewState {
 }
 
 function navigateDown(state: ReviewState): ReviewState {
-  const file = state.files[state.selectedFileIndex];
-  
-  if (!file) return state;
-  
-  if (state.selectedCommentIndex === -1) {
-    // On file header
-    if (file.expanded && file.comments.length > 0) {
-      state.selectedCommentIndex = 0;
-    } else if (state.selectedFileIndex < state.files.length - 1) {
-      state.selectedFileIndex++;
-      state.selectedCommentIndex = -1;
-    }
-  } else if (state.selectedCommentIndex < file.comments.length - 1) {
-    // Move down within comments
-    state.selectedCommentIndex++;
-  } else if (state.selectedFileIndex < state.files.length - 1) {
-    // Move to next file
-    state.selectedFileIndex++;
-    state.selectedCommentIndex = -1;
+  const items = getNavigableItems(state);
+  if (items.length === 0) return state;
+  
+  const position = getSelectedItemPosition(state, items);
+  if (position === -1) {
+    selectItem(state, items[0]);
+  } else if (position < items.length - 1) {
+    selectItem(state, items[position + 1]);
   }
   
   // Reset detail scroll when navigating (comment might have changed)
@@ -848,16 +1168,68 @@ function navigateDown(state: ReviewState): ReviewState {
   return state;
 }
 
-function handleKeypress(state: ReviewState, key: readline.Key): { state: ReviewState; action: 'render' | 'quit' | 'copy' | 'none' } {
+function handleKeypress(state: ReviewState, key: readline.Key): { state: ReviewState; action: 'render' | 'quit' | 'detach' | 'copy' | 'apply' | 'confirm-apply' | TriageStatus | 'none' } {
   if (!key) return { state, action: 'none' };
   
   const { name, ctrl } = key;
   
+  // Typing a filter query: keys edit the query instead of navigating
+  if (state.filterEditing && !(ctrl && name === 'c')) {
+    if (name === 'escape') {
+      state.filterQuery = '';
+      state.filterEditing = false;
+    } else if (name === 'return') {
+      state.filterEditing = false;
+    } else if (name === 'backspace') {
+      state.filterQuery = state.filterQuery.slice(0, -1);
+    } else if (key.sequence && key.sequence.length === 1 && !ctrl && key.sequence >= ' ') {
+      state.filterQuery += key.sequence;
+    } else {
+      return { state, action: 'none' };
+    }
+    ensureVisibleSelection(state);
+    return { state, action: 'render' };
+  }
+  
   // Quit
   if (name === 'q' || (ctrl && name === 'c')) {
     return { state, action: 'quit' };
   }
   
+  // Detach: leave the analysis running on the server (Shift+D)
+  if (name === 'd' && key.shift && state.status === 'running') {
+    return { state, action: 'detach' };
+  }
+  
+  // Fix preview is modal: only confirm or cancel
+  if (state.pendingFix) {
+    if (name === 'y') {
+      return { state, action: 'confirm-apply' };
+    }
+    if (name === 'n' || name === 'escape') {
+      state.pendingFix = undefined;
+      state.notice = pc.dim('Fix cancelled');
+      return { state, action: 'render' };
+    }
+    return { state, action: 'none' };
+  }
+  
+  // Any other key clears the last notice
+  state.notice = undefined;
+  
+  // Start filtering
+  if (key.sequence === '/' && (state.mode === 'list' || state.focusedPanel === 'left')) {
+    state.filterEditing = true;
+    return { state, action: 'render' };
+  }
+  
+  // Escape in list view clears an applied filter
+  if (name === 'escape' && state.mode === 'list' && state.filterQuery) {
+    state.filterQuery = '';
+    ensureVisibleSelection(state);
+    return { state, action: 'render' };
+  }
+  
   // In detail mode, Tab switches focus between panels
   if (state.mode === 'detail' && name === 'tab') {
     state.focusedPanel = state.focusedPanel === 'left' ? 'right' : 'left';
@@ -1000,6 +1372,26 @@ function handleKeypress(state: ReviewState, key: readline.Key): { state: ReviewS
     return { state, action: 'copy' };
   }
   
+  // Apply suggested fix (detail view only)
+  if (name === 'a' && state.mode === 'detail' && state.selectedCommentIndex >= 0) {
+    return { state, action: 'apply' };
+  }
+  
+  // Triage the selected comment (pressing the same key again reopens it)
+  if (!ctrl && !key.shift && state.selectedCommentIndex >= 0) {
+    if (name === 'r') return { state, action: 'resolved' };
+    if (name === 'd') return { state, action: 'dismissed' };
+    if (name === 's') return { state, action: 'snoozed' };
+  }
+  
+  // Show or hide already handled comments
+  if (name === 'h' && !ctrl) {
+    state.showHandled = !state.showHandled;
+    ensureVisibleSelection(state);
+    state.notice = pc.dim(state.showHandled ? 'Showing handled comments' : 'Hiding handled comments');
+    return { state, action: 'render' };
+  }
+  
   return { state, action: 'none' };
 }
 
@@ -1007,7 +1399,50 @@ function handleKeypress(state: ReviewState, key: readline.Key): { state: ReviewS
 // Initial UI & Loading
 // ==============================================================
 
-function displayInitialUI(changes: GitChanges): void {
+// Excluded files and secret findings listed on the start screen
+const MAX_EXCLUDED_SHOWN = 4;
+
+// Secret findings printed in headless runs
+const MAX_SECRETS_LOGGED = 20;
+
+// What was found while preparing the changes for upload
+interface ChangeScan {
+  excluded: ExcludedFile[];
+  secrets: SecretFinding[];
+  warnings: string[]; // about the settings used for the scan
+}
+
+/**
+ * Summarize files left out of the review (ignored, binary or too large)
+ */
+function describeExcluded(excluded: ExcludedFile[]): string | null {
+  if (excluded.length === 0) return null;
+  const count = (reason: ExcludedFile['reason']) => excluded.filter(e => e.reason === reason).length;
+  const parts = [
+    count('ignored') > 0 ? `${count('ignored')} ignored` : '',
+    count('binary') > 0 ? `${count('binary')} binary` : '',
+    count('size') > 0 ? `${count('size')} over the size limit` : ''
+  ].filter(Boolean);
+  return `Excluded ${excluded.length} file${excluded.length === 1 ? '' : 's'}: ${parts.join(', ')}`;
+}
+
+/**
+ * Summarize likely secrets found in the files to upload
+ */
+function describeSecrets(secrets: SecretFinding[]): string | null {
+  if (secrets.length === 0) return null;
+  const files = new Set(secrets.map(s => s.file)).size;
+  return `Possible secrets in ${files} file${files === 1 ? '' : 's'} (${secrets.length} finding${secrets.length === 1 ? '' : 's'}) will be redacted before upload`;
+}
+
+function displayInitialUI(
+  changes: GitChanges,
+  target: ReviewTarget,
+  scan: ChangeScan = { excluded: [], secrets: [], warnings: [] },
+  blockOnSecret = false,
+  refreshError?: string
+): void {
+  const { excluded, secrets, warnings } = scan;
   const { width, height } = getTerminalSize();
   clearScreen();
   
@@ -1018,7 +1453,7 @@ function displayInitialUI(changes: GitChanges): void {
   console.log();
   console.log(centerText(`repo: ${pc.dim(getRepoPath())}`, width));
   console.log();
-  console.log(centerText(`comparing: ${pc.cyan(getCurrentBranch())} → ${pc.green(getDefaultBranch())} ${pc.dim('(base)')}`, width));
+  console.log(centerText(`comparing: ${pc.cyan(target.label)}`, width));
   console.log();
   
   if (changes.totalFiles === 0) {
@@ -1030,16 +1465,56 @@ function displayInitialUI(changes: GitChanges): void {
     
     changes.files.slice(0, 8).forEach(f => {
       const status = f.status === 'added' || f.status === 'untracked' ? pc.green('A') : 
-                     f.status === 'modified' ? pc.yellow('M') : pc.red('D');
-      console.log(centerText(`${status}  ${f.path}`, width));
+                     f.status === 'deleted' ? pc.red('D') :
+                     f.status === 'renamed' ? pc.cyan('R') :
+                     f.status === 'copied' ? pc.cyan('C') :
+                     f.status === 'typechange' ? pc.yellow('T') : pc.yellow('M');
+      const name = f.oldPath ? `${f.oldPath} → ${f.path}` : f.path;
+      console.log(centerText(`${status}  ${name}`, width));
     });
     if (changes.files.length > 8) {
       console.log(centerText(pc.dim(`... and ${changes.files.length - 8} more`), width));
     }
   }
   
+  // Show what was left out and why
+  if (excluded.length > 0) {
+    console.log();
+    console.log(centerText(pc.dim(describeExcluded(excluded) as string), width));
+    excluded.slice(0, MAX_EXCLUDED_SHOWN).forEach(({ file, detail }) => {
+      console.log(centerText(pc.dim(`–  ${file.path}  (${detail})`), width));
+    });
+    if (excluded.length > MAX_EXCLUDED_SHOWN) {
+      console.log(centerText(pc.dim(`... and ${excluded.length - MAX_EXCLUDED_SHOWN} more`), width));
+    }
+  }
+  
+  // Warn about likely secrets before anything is uploaded
+  const blocked = blockOnSecret && secrets.length > 0;
+  if (secrets.length > 0) {
+    console.log();
+    console.log(centerText(pc.yellow(`⚠  ${describeSecrets(secrets)}`), width));
+    secrets.slice(0, MAX_EXCLUDED_SHOWN).forEach(f => {
+      console.log(centerText(pc.dim(`${f.file}${f.line ? `:${f.line}` : ''}  (${f.name})`), width));
+    });
+    if (secrets.length > MAX_EXCLUDED_SHOWN) {
+      console.log(centerText(pc.dim(`... and ${secrets.length - MAX_EXCLUDED_SHOWN} more`), width));
+    }
+  }
+  if (warnings.length > 0) {
+    console.log();
+    warnings.forEach(warning => console.log(centerText(pc.yellow(`⚠  ${warning}`), width)));
+  }
+  
   console.log();
-  console.log(centerText(changes.totalFiles > 0 ? pc.cyan('Hit ↵ to start review') : pc.dim('Make changes to review'), width));
+  if (refreshError) {
+    console.log(centerText(pc.red(`✗ Refresh failed: ${refreshError}`), width));
+    console.log(centerText(pc.dim('Fix the problem and press r to try again.'), width));
+  } else if (blocked) {
+    console.log(centerText(pc.red('Upload blocked by --no-upload-on-secret. Remove the secrets and press r.'), width));
+  } else {
+    console.log(centerText(changes.totalFiles > 0 ? pc.cyan('Hit ↵ to start review') : pc.dim('Make changes to review'), width));
+  }
   console.log('\n'.repeat(3));
   console.log(centerText(`${pc.dim('r: Refresh')}  |  ${pc.dim('q: Quit')}`, width));
   console.log(centerText(`${pc.green('✓')} ${pc.cyan(getAuthUser().email)}`, width));
@@ -1058,178 +1533,377 @@ function displayLoadingScreen(): void {
 // Main Review Flow
 // ==============================================================
 
-async function runReviewSession(changes: GitChanges): Promise<void> {
+function createReviewState(
+  dataId?: string,
+  reviewed: {
+    fileSnapshots?: Map<string, string>;
+    fileHashes?: Record<string, string>;
+    snippets?: Record<string, string[]>;
+    fingerprints?: Record<string, string>;
+  } = {}
+): ReviewState {
+  return {
+    dataId: dataId,
+    mode: 'list',
+    focusedPanel: 'left',
+    files: [],
+    selectedFileIndex: 0,
+    selectedCommentIndex: -1,
+    detailScrollOffset: 0,
+    leftPanelScrollOffset: 0,
+    totalComments: 0,
+    resolvedComments: 0,
+    triage: loadTriage(),
+    fingerprints: new Map(Object.entries(reviewed.fingerprints || {})),
+    showHandled: false,
+    fileSnapshots: reviewed.fileSnapshots || new Map(),
+    fileHashes: reviewed.fileHashes || {},
+    snippets: new Map(Object.entries(reviewed.snippets || {})),
+    filterQuery: '',
+    filterEditing: false,
+    status: 'running',
+    spinnerFrame: 0
+  };
+}
+
+// Group comments by file
+function addComments(state: ReviewState, comments: ReviewComment[]): void {
+  comments.forEach(c => {
+    let fileGroup = state.files.find(f => f.filePath === c.file_path);
+    if (!fileGroup) {
+      fileGroup = { filePath: c.file_path, comments: [], expanded: true };
+      state.files.push(fileGroup);
+    }
+    const exists = fileGroup.comments.some(x => x.line_start === c.line_start && x.title === c.title);
+    if (!exists) {
+      fileGroup.comments.push(c);
+      state.totalComments++;
+    }
+  });
+  // Remember what each new comment flagged while the reviewed files are at hand
+  const fresh = comments.filter(c => !state.snippets.has(c.id));
+  captureSnippets(fresh, { snapshots: state.fileSnapshots, fileHashes: state.fileHashes })
+    .forEach((snippet, id) => state.snippets.set(id, snippet));
+  updateResolvedCount(state);
+}
+
+function getAllComments(state: ReviewState): ReviewComment[] {
+  return state.files.flatMap(f => f.comments);
+}
+
+/**
+ * Footer status while the analysis runs (null once it has finished)
+ */
+function getRunningStatus(state: ReviewState, spinner: string): string | null {
+  if (state.status !== 'running') return null;
+  if (state.connectionLost) {
+    return pc.red(`${spinner} Connection lost, retrying...`) + pc.dim(` (${state.connectionLost})`);
+  }
+  return pc.yellow(`${spinner} Reviewing...`);
+}
+
+/**
+ * Run the interactive split-view UI until the user quits or detaches.
+ * `onExit` runs before the terminal is restored (e.g. to stop streaming)
+ * and may return a message to print afterwards.
+ */
+function startReviewUI(
+  state: ReviewState,
+  onExit: (reason: 'quit' | 'detach') => Promise<string | void> = async () => {}
+): void {
+  render(state);
+
+  const uiTimer = setInterval(() => {
+    if (state.status === 'running') {
+      state.spinnerFrame = (state.spinnerFrame || 0) + 1;
+      render(state);
+    }
+  }, 100);
+  
+  // Keyboard handling
+  readline.emitKeypressEvents(process.stdin);
+  if (process.stdin.isTTY) process.stdin.setRawMode(true);
+  
+  // Handle resize
+  const handleResize = () => {
+    render(state);
+  };
+  process.stdout.on('resize', handleResize);
+
+  const cleanup = async (reason: 'quit' | 'detach' = 'quit') => {
+    const message = await onExit(reason);
+    process.stdout.write(MOUSE_DISABLE);
+    process.stdout.off('resize', handleResize);
+    clearInterval(uiTimer);
+    exitAlternateScreen();
+    if (process.stdin.isTTY) process.stdin.setRawMode(false);
+    console.log(message || pc.green('\n  ✓ Review session ended.\n'));
+    process.exit(0);
+  };
+  
+  // Terminal closed: keep the analysis running so it can be re-attached
+  process.once('SIGHUP', () => cleanup('detach'));
+  
+  process.stdin.on('keypress', async (str, key) => {
+    // Handle Mouse Events via regex on sequence
+    if (key && key.sequence) {
+      const mouseMatch = key.sequence.match(/\x1B\[<(\d+);(\d+);(\d+)([Mm])/);
+      if (mouseMatch) {
+        const b = parseInt(mouseMatch[1]);
+        const x = parseInt(mouseMatch[2]);
+        // const y = parseInt(mouseMatch[3]);
+        const type = mouseMatch[4];
+        
+        const { width } = getTerminalSize();
+        const leftWidth = Math.floor(width * 0.35);
+
+        // Scroll Wheel
+        if (b === 64 || b === 65) { // 64=Up, 65=Down
+           const isUp = b === 64;
+           const isLeft = x <= leftWidth;
+           
+           if (isLeft) {
+              state.leftPanelScrollOffset = Math.max(0, state.leftPanelScrollOffset + (isUp ? -3 : 3));
+           } else {
+              state.detailScrollOffset = Math.max(0, state.detailScrollOffset + (isUp ? -3 : 3));
+           }
+           render(state);
+           return;
+        }
+        
+        // Click (Left Button Release)
+        if (b === 0 && type === 'm') { // Left Click Release
+           const isLeft = x <= leftWidth;
+           if (state.mode === 'detail') {
+              state.focusedPanel = isLeft ? 'left' : 'right';
+              render(state);
+              // We could implement clicking a file here, but focus is sufficient for now
+              return;
+           }
+        }
+      }
+    }
+
+    const result = handleKeypress(state, key);
+    state = result.state;
+    
+    if (result.action === 'quit') {
+      await cleanup();
+    } else if (result.action === 'detach') {
+      await cleanup('detach');
+    } else if (result.action === 'render') {
+      render(state);
+    } else if (result.action === 'copy') {
+      const file = state.files[state.selectedFileIndex];
+      if (file && state.selectedCommentIndex >= 0) {
+        const c = file.comments[state.selectedCommentIndex];
+        const promptMatch = c.content.match(/\*\*Prompt (?:for|to) (?:Fix with )?AI[^*]*\*\*:?\s*([\s\S]*?)(?:\n\n##|\n\n\*\*|$)/i);
+        if (promptMatch) {
+          try { execSync('pbcopy', { input: promptMatch[1].trim() }); } catch {}
+        }
+      }
+    } else if (result.action === 'apply') {
+      const file = state.files[state.selectedFileIndex];
+      const c = file?.comments[state.selectedCommentIndex];
+      if (c) {
+        try {
+          state.pendingFix = buildFixPatch(c, { snippet: state.snippets.get(c.id), fileHash: state.fileHashes[c.file_path] });
+          state.focusedPanel = 'right';
+          state.detailScrollOffset = 0;
+        } catch (error: any) {
+          state.notice = pc.red(`✗ ${error.message}`);
+        }
+        render(state);
+      }
+    } else if (result.action === 'confirm-apply' && state.pendingFix) {
+      const patch = state.pendingFix;
+      state.pendingFix = undefined;
+      const c = state.files[state.selectedFileIndex]?.comments.find(x => x.id === patch.commentId);
+      try {
+        if (c) getFingerprint(state, c); // fingerprint the original code before it changes
+        const line = applyFixPatch(patch);
+        if (c) setCommentStatus(state, c, 'resolved');
+        state.notice = pc.green(`✓ Fix applied to ${patch.filePath}:${line}`);
+      } catch (error: any) {
+        state.notice = pc.red(`✗ ${error.message}`);
+      }
+      render(state);
+    } else if (result.action === 'resolved' || result.action === 'dismissed' || result.action === 'snoozed') {
+      const c = state.files[state.selectedFileIndex]?.comments[state.selectedCommentIndex];
+      if (c) {
+        const items = getNavigableItems(state);
+        const position = getSelectedItemPosition(state, items);
+        const current = getTriageStatus(state, c);
+        const status = current === result.action ? null : result.action;
+        try {
+          setCommentStatus(state, c, status);
+          state.notice = status ? pc.green(`✓ Comment marked ${status}`) : pc.dim('Comment reopened');
+        } catch (error: any) {
+          state.notice = pc.red(`✗ ${error.message}`);
+        }
+        ensureVisibleSelection(state, position);
+        render(state);
+      }
+    }
+  });
+  
+  process.stdin.resume();
+}
+
+async function runReviewSession(changes: GitChanges, target: ReviewTarget, submitOptions: SubmitOptions = {}): Promise<void> {
   // Animated Loading Screen
   let frame = 0;
   const frames = ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏'];
   const loadingMsg = LOADING_MESSAGES[Math.floor(Math.random() * LOADING_MESSAGES.length)];
   
+  // Progress of a batched upload (large reviews only)
+  let upload: UploadProgress | null = null;
+  
   const renderLoading = () => {
     const { width, height } = getTerminalSize();
     clearScreen();
     console.log('\n'.repeat(Math.floor(height / 2) - 1));
     const spinner = frames[frame++ % frames.length];
     console.log(centerText(pc.cyan(`${spinner} ${loadingMsg}`), width));
+    if (upload) {
+      console.log();
+      console.log(centerText(formatUploadProgress(upload, 30), width));
+    }
   };
   
   renderLoading();
   const loadingInterval = setInterval(renderLoading, 80);
   
   try {
-    const response = await submitReview(changes.files);
+    // Snapshot reviewed files so applied fixes can detect later edits
+    const fileSnapshots = await snapshotFiles(changes.files, target);
+    
+    const response = await submitReview(changes.files, target, submitOptions, progress => {
+      upload = progress;
+    });
     clearInterval(loadingInterval);
     const dataId = response.extension_data_id;
     
-    // Initialize state
-    let state: ReviewState = {
-      dataId: dataId,
-      mode: 'list',
-      focusedPanel: 'left',
-      files: [],
-      selectedFileIndex: 0,
-      selectedCommentIndex: -1,
-      detailScrollOffset: 0,
-      leftPanelScrollOffset: 0,
-      totalComments: 0,
-      resolvedComments: 0,
-      status: 'running',
-      spinnerFrame: 0
-    };
-    
-    // Group comments by file
-    const addComments = (comments: ReviewComment[]) => {
-      comments.forEach(c => {
-        let fileGroup = state.files.find(f => f.filePath === c.file_path);
-        if (!fileGroup) {
-          fileGroup = { filePath: c.file_path, comments: [], expanded: true };
-          state.files.push(fileGroup);
-        }
-        const exists = fileGroup.comments.some(x => x.line_start === c.line_start && x.title === c.title);
-        if (!exists) {
-          fileGroup.comments.push(c);
-          state.totalComments++;
-        }
-      });
-    };
+    await monitorReview(dataId, {
+      info: getTargetInfo(target),
+      files: changes.files.map(f => f.path),
+      fileSnapshots,
+      fileHashes: hashSnapshots(fileSnapshots)
+    });
     
-    // Initial poll
+  } catch (error: any) {
+    clearInterval(loadingInterval);
+    exitAlternateScreen();
+    console.log(pc.red(`\n  ✗ Failed: ${error.message}\n`));
+    process.exit(1);
+  }
+}
+
+/**
+ * Follow a running analysis and show its comments in the review UI.
+ * Used both for new reviews and when re-attaching to a detached one.
+ */
+async function monitorReview(
+  dataId: string,
+  review: {
+    info: ReviewTargetInfo;
+    files: string[];
+    comments?: ReviewComment[];
+    fileSnapshots?: Map<string, string>;
+    fileHashes?: Record<string, string>;
+    snippets?: Record<string, string[]>;
+    fingerprints?: Record<string, string>;
+  }
+): Promise<void> {
+  // Initialize state
+  const state = createReviewState(dataId, review);
+  addComments(state, review.comments || []);
+  
+  // Store the review locally so it can be reopened with `beetle show`
+  // or re-attached with `beetle review --attach`
+  const saveToHistory = () => {
     try {
-      const initial = await pollComments(dataId);
-      addComments(initial);
+      saveReview({
+        dataId,
+        info: review.info,
+        files: review.files,
+        comments: getAllComments(state),
+        status: state.status,
+        fileHashes: state.fileHashes,
+        snippets: state.snippets,
+        fingerprints: state.fingerprints
+      });
     } catch {}
-    
+  };
+  saveToHistory();
+  
+  // Show comments as they are streamed, and when the connection drops
+  const subscription = subscribeToReview(dataId, event => {
+    state.connectionLost = event.type === 'error' ? event.error.message : undefined;
+    if (event.type === 'comment') {
+      addComments(state, [event.comment]);
+    } else if (event.type === 'status' && event.status !== 'running') {
+      state.status = event.status;
+      saveToHistory();
+    }
     render(state);
+  }, { maxFailures: Infinity });
+  subscription.done.catch(error => {
+    // Only rejected credentials end the subscription early
+    state.connectionLost = undefined;
+    state.notice = pc.red(`✗ ${error.message}`);
+    render(state);
+  });
+  
+  startReviewUI(state, async (reason) => {
+    subscription.close();
+    if (state.status !== 'running') return;
     
-    // Polling
-    const pollTimer = setInterval(async () => {
-      try {
-        const newComments = await pollComments(dataId);
-        if (newComments.length > 0) {
-          addComments(newComments);
-          render(state);
-        }
-        
-        const status = await getAnalysisStatus(dataId);
-        if (status.analysis_status !== 'running') {
-          state.status = status.analysis_status as any;
-          clearInterval(pollTimer);
-          render(state);
-        }
-      } catch {}
-    }, POLL_INTERVAL);
-
-    const uiTimer = setInterval(() => {
-      if (state.status === 'running') {
-        state.spinnerFrame = (state.spinnerFrame || 0) + 1;
-        render(state);
-      }
-    }, 100);
-    
-    // Keyboard handling
-    readline.emitKeypressEvents(process.stdin);
-    if (process.stdin.isTTY) process.stdin.setRawMode(true);
-    
-    // Handle resize
-    const handleResize = () => {
-      render(state);
-    };
-    process.stdout.on('resize', handleResize);
-
-    const cleanup = async () => {
-      if (state.dataId) {
-        await stopAnalysis(state.dataId).catch(() => {});
-      }
-      process.stdout.write(MOUSE_DISABLE);
-      process.stdout.off('resize', handleResize);
-      clearInterval(pollTimer);
-      clearInterval(uiTimer);
-      exitAlternateScreen();
-      if (process.stdin.isTTY) process.stdin.setRawMode(false);
-      console.log(pc.green('\n  ✓ Review session ended.\n'));
-      process.exit(0);
-    };
+    if (reason === 'detach') {
+      saveToHistory();
+      return pc.green(`\n  ✓ Detached. The analysis keeps running.\n`) +
+        `    Resume with ${pc.cyan(`beetle review --attach ${dataId}`)}\n`;
+    }
     
-    process.stdin.on('keypress', async (str, key) => {
-      // Handle Mouse Events via regex on sequence
-      if (key && key.sequence) {
-        const mouseMatch = key.sequence.match(/\x1B\[<(\d+);(\d+);(\d+)([Mm])/);
-        if (mouseMatch) {
-          const b = parseInt(mouseMatch[1]);
-          const x = parseInt(mouseMatch[2]);
-          // const y = parseInt(mouseMatch[3]);
-          const type = mouseMatch[4];
-          
-          const { width } = getTerminalSize();
-          const leftWidth = Math.floor(width * 0.35);
-
-          // Scroll Wheel
-          if (b === 64 || b === 65) { // 64=Up, 65=Down
-             const isUp = b === 64;
-             const isLeft = x <= leftWidth;
-             
-             if (isLeft) {
-                state.leftPanelScrollOffset = Math.max(0, state.leftPanelScrollOffset + (isUp ? -3 : 3));
-             } else {
-                state.detailScrollOffset = Math.max(0, state.detailScrollOffset + (isUp ? -3 : 3));
-             }
-             render(state);
-             return;
-          }
-          
-          // Click (Left Button Release)
-          if (b === 0 && type === 'm') { // Left Click Release
-             const isLeft = x <= leftWidth;
-             if (state.mode === 'detail') {
-                state.focusedPanel = isLeft ? 'left' : 'right';
-                render(state);
-                // We could implement clicking a file here, but focus is sufficient for now
-                return;
-             }
-          }
-        }
-      }
+    await stopAnalysis(dataId).catch(() => {});
+    state.status = 'interrupted';
+    saveToHistory();
+  });
+}
 
-      const result = handleKeypress(state, key);
-      state = result.state;
-      
-      if (result.action === 'quit') {
-        await cleanup();
-      } else if (result.action === 'render') {
-        render(state);
-      } else if (result.action === 'copy') {
-        const file = state.files[state.selectedFileIndex];
-        if (file && state.selectedCommentIndex >= 0) {
-          const c = file.comments[state.selectedCommentIndex];
-          const promptMatch = c.content.match(/\*\*Prompt (?:for|to) (?:Fix with )?AI[^*]*\*\*:?\s*([\s\S]*?)(?:\n\n##|\n\n\*\*|$)/i);
-          if (promptMatch) {
-            try { execSync('pbcopy', { input: promptMatch[1].trim() }); } catch {}
-          }
-        }
-      }
+/**
+ * Re-attach to an analysis that was detached or left running
+ */
+async function attachToReview(dataId: string | true): Promise<void> {
+  let record: ReviewRecord | null;
+  try {
+    record = dataId === true ? findRunningReview() : findReview(dataId);
+  } catch (error: any) {
+    console.log(pc.red(`✗ ${error.message}`));
+    process.exit(1);
+  }
+  
+  if (!record && dataId === true) {
+    console.log(pc.red('✗ No running review to attach to in this repository.'));
+    console.log(pc.dim(`  Pass a review id with ${pc.cyan('beetle review --attach <dataId>')}.`));
+    process.exit(1);
+  }
+  
+  const id = record?.dataId || (dataId as string);
+  const info = record 
+    ? { branch: record.branch, commitSha: record.commitSha, target: record.target }
+    : getTargetInfo(resolveReviewTarget());
+  
+  enterAlternateScreen();
+  try {
+    await monitorReview(id, {
+      info,
+      files: record?.files || [],
+      comments: record?.comments,
+      fileHashes: record?.fileHashes,
+      snippets: record?.snippets,
+      fingerprints: record?.fingerprints
     });
-    
-    process.stdin.resume();
-    
   } catch (error: any) {
     exitAlternateScreen();
     console.log(pc.red(`\n  ✗ Failed: ${error.message}\n`));
@@ -1237,28 +1911,157 @@ async function runReviewSession(changes: GitChanges): Promise<void> {
   }
 }
 
+/**
+ * Reopen a stored review in the split-view UI (no API calls)
+ */
+export function openStoredReview(record: ReviewRecord): void {
+  const state = createReviewState(record.dataId, {
+    fileHashes: record.fileHashes,
+    snippets: record.snippets,
+    fingerprints: record.fingerprints
+  });
+  addComments(state, record.comments);
+  state.status = record.status === 'running' ? 'interrupted' : record.status as ReviewState['status'];
+  
+  enterAlternateScreen();
+  startReviewUI(state);
+}
+
 export async function reviewCommand(options: any = {}): Promise<void> {
-  if (!requireAuth()) process.exit(1);
+  // A dry run never talks to the API, so it works logged out
+  if (!options.dryRun && !requireAuth()) process.exit(1);
   if (!requireGitRepo()) process.exit(1);
   
+  // Refresh (or log in again) before the UI takes over the screen
+  try {
+    if (!options.dryRun) await ensureValidAuth();
+  } catch (error: any) {
+    console.log(pc.red(`✗ ${error.message}`));
+    process.exit(CI_EXIT_ERROR);
+  }
+  
+  // Re-attach to a detached analysis instead of starting a new one
+  if (options.attach) {
+    await attachToReview(options.attach);
+    return;
+  }
+  
   const stagedOnly = !!options.staged;
   
-  let changes = getChangedFiles({ stagedOnly });
+  // Flags override environment, project (.beetle.json) and user settings
+  let settings: ResolvedSettings;
+  try {
+    settings = resolveReviewSettings({ baseBranch: options.base, failOn: options.failOn, format: options.format });
+  } catch (error: any) {
+    console.log(pc.red(`✗ ${error.message}`));
+    process.exit(CI_EXIT_ERROR);
+  }
+  
+  // The configured base branch only applies when no other target was asked for
+  const base = options.base || (options.range || options.commit || stagedOnly ? undefined : settings.baseBranch);
+  
+  let target: ReviewTarget;
+  try {
+    target = resolveReviewTarget({ base, range: options.range, commit: options.commit });
+  } catch (error: any) {
+    console.log(pc.red(`✗ ${error.message}`));
+    process.exit(CI_EXIT_ERROR);
+  }
+  if (stagedOnly && target.kind !== 'working') {
+    console.log(pc.red('✗ --staged cannot be combined with --base, --range or --commit'));
+    process.exit(CI_EXIT_ERROR);
+  }
+  
+  const submitOptions: SubmitOptions = { instructions: settings.instructions, secretPatterns: settings.secretPatterns };
+  // --no-upload-on-secret refuses to upload anything that looks like a secret
+  const blockOnSecret = options.uploadOnSecret === false;
   
+  const collectChanges = async () => {
+    const { changes, excluded } = applyReviewSettings(getChangedFiles({ stagedOnly, target }), settings, target);
+    const secrets = await scanForSecrets(changes.files, target, submitOptions);
+    return { changes, scan: { excluded, secrets, warnings: settings.warnings } };
+  };
+  let changes: GitChanges;
+  let scan: ChangeScan;
+  try {
+    ({ changes, scan } = await collectChanges());
+  } catch (error: any) {
+    console.log(pc.red(`✗ ${error.message}`));
+    process.exit(CI_EXIT_ERROR);
+  }
+  const skipped = describeExcluded(scan.excluded);
+  const secretWarning = describeSecrets(scan.secrets);
+  
+  // Print findings for the non-interactive modes and stop if uploading is blocked
+  const reportSecrets = (log: (msg: string) => void) => {
+    scan.warnings.forEach(warning => log(pc.yellow(`⚠ ${warning}`)));
+    if (!secretWarning) return;
+    log(pc.yellow(`⚠ ${secretWarning}`));
+    scan.secrets.slice(0, MAX_SECRETS_LOGGED).forEach(f => log(pc.dim(`    ${f.file}${f.line ? `:${f.line}` : ''}  ${f.name}`)));
+    if (scan.secrets.length > MAX_SECRETS_LOGGED) {
+      log(pc.dim(`    ... and ${scan.secrets.length - MAX_SECRETS_LOGGED} more`));
+    }
+    if (blockOnSecret) {
+      log(pc.red('✗ Review not submitted (--no-upload-on-secret). Remove the secrets or add them to .beetleignore.'));
+      process.exit(CI_EXIT_ERROR);
+    }
+  };
+
+  // Dry run: show the payload instead of uploading it
+  if (options.dryRun) {
+    if (skipped) console.error(pc.dim(skipped));
+    reportSecrets(msg => console.error(msg));
+    await runDryRun(changes, target, submitOptions, options.output);
+    return;
+  }
+
+  // Headless CI Mode (machine-readable formats always run headless)
+  const format = (settings.format || 'text') as OutputFormat;
+  if (!(OUTPUT_FORMATS as readonly string[]).includes(format)) {
+    console.log(pc.red(`✗ Invalid --format value "${format}". Use one of: ${OUTPUT_FORMATS.join(', ')}.`));
+    process.exit(CI_EXIT_ERROR);
+  }
+  if (options.ci || format !== 'text') {
+    if (settings.failOn && !isSeverity(settings.failOn)) {
+      console.log(pc.red(`✗ Invalid --fail-on value "${settings.failOn}". Use one of: ${SEVERITY_LEVELS.join(', ')}.`));
+      process.exit(CI_EXIT_ERROR);
+    }
+    if (skipped) console.error(pc.dim(skipped));
+    reportSecrets(msg => console.error(msg));
+    const timeout = options.timeout !== undefined ? Number(options.timeout) : CI_DEFAULT_TIMEOUT;
+    if (!Number.isFinite(timeout) || timeout <= 0) {
+      console.log(pc.red(`✗ Invalid --timeout value "${options.timeout}". Expected a number of seconds.`));
+      process.exit(CI_EXIT_ERROR);
+    }
+    await runCiMode(changes, target, {
+      failOn: settings.failOn ? normalizeSeverity(settings.failOn) : undefined,
+      timeout,
+      format,
+      output: options.output,
+      submit: submitOptions
+    });
+    return;
+  }
+
   // Direct Prompt Mode
   if (options.promptOnly) {
-    await runPromptOnlyMode(changes);
+    if (skipped) console.log(pc.dim(`  ${skipped}`));
+    reportSecrets(msg => console.log(`  ${msg}`));
+    await runPromptOnlyMode(changes, target, submitOptions);
     return;
   }
   
+  // Set while the last refresh failed: the changes shown are out of date
+  let refreshError: string | undefined;
+  
   enterAlternateScreen();
-  displayInitialUI(changes);
+  displayInitialUI(changes, target, scan, blockOnSecret);
   
   readline.emitKeypressEvents(process.stdin);
   if (process.stdin.isTTY) process.stdin.setRawMode(true);
   
   const handleResize = () => {
-    displayInitialUI(changes);
+    displayInitialUI(changes, target, scan, blockOnSecret, refreshError);
   };
   process.stdout.on('resize', handleResize);
 
@@ -1276,12 +2079,17 @@ export async function reviewCommand(options: any = {}): Promise<void> {
     if (key.name === 'q' || (key.ctrl && key.name === 'c')) {
       await cleanup();
     } else if (key.name === 'r') {
-      changes = getChangedFiles({ stagedOnly });
-      displayInitialUI(changes);
-    } else if (key.name === 'return' && changes.totalFiles > 0) {
+      try {
+        ({ changes, scan } = await collectChanges());
+        refreshError = undefined;
+      } catch (error: any) {
+        refreshError = error.message;
+      }
+      displayInitialUI(changes, target, scan, blockOnSecret, refreshError);
+    } else if (key.name === 'return' && !refreshError && changes.totalFiles > 0 && !(blockOnSecret && scan.secrets.length > 0)) {
       process.stdin.removeAllListeners('keypress');
       process.stdout.off('resize', handleResize);
-      await runReviewSession(changes);
+      await runReviewSession(changes, target, submitOptions);
     }
   });
   
@@ -0,0 +1,203 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { ReviewComment } from './api.js';
+import { getRepoPath } from './guards.js';
+
+// Severity levels, ordered from most to least severe
+export const SEVERITY_LEVELS = ['critical', 'high', 'medium', 'low'] as const;
+export type Severity = typeof SEVERITY_LEVELS[number];
+
+export interface CommentMetadata {
+  title: string;
+  severity: string;
+  lineStart: number;
+  lineEnd: number;
+  description: string;
+  codeBlock: string;
+  aiPrompt: string;
+}
+
+/**
+ * Parse comment content to extract metadata
+ */
+export function parseCommentMetadata(content: string): CommentMetadata {
+  // 1. Extract Metadata
+  const severityMatch = content.match(/\*\*Severity\*\*:\s*(\w+)/i);
+  const lineStartMatch = content.match(/\*\*Line_Start\*\*:\s*(\d+)/i);
+  const lineEndMatch = content.match(/\*\*Line_End\*\*:\s*(\d+)/i);
+  const titleMatch = content.match(/\*\*Title\*\*:\s*([^\n]+)/i);
+
+  // 2. Extract "Suggested Fix" (Code Block)
+  let codeBlock = '';
+  // Look for details with summary "Suggested Fix"
+  const fixMatch = content.match(/<details>\s*<summary>\s*Suggested Fix\s*<\/summary>([\s\S]*?)<\/details>/i);
+  if (fixMatch) {
+    codeBlock = fixMatch[1].trim();
+  } else {
+    // Fallback: look for generic code blocks if not in structured format (and not part of AI prompt)
+    // We try to avoid capturing the AI prompt code block here by checking context if possible, 
+    // but simple regex is trickier. For now, rely on specific structure if present.
+    const genericMatches = content.match(/```[\s\S]*?```/g);
+    if (genericMatches && genericMatches.length > 0) {
+        // If we have "Suggested Fix" wrapper, we used it. If not, maybe the first code block is relevant code?
+        // But in the new format, Suggested Fix is always wrapped.
+    }
+  }
+
+  // 3. Extract "Prompt for AI"
+  let aiPrompt = '';
+  const aiPromptMatch = content.match(/<details>\s*<summary>\s*Prompt for AI\s*<\/summary>([\s\S]*?)<\/details>/i);
+  if (aiPromptMatch) {
+    const inner = aiPromptMatch[1];
+    // The prompt is often in a code block for easy copying
+    const innerCodeBlock = inner.match(/```(?:suggestion)?\s*([\s\S]*?)```/);
+    if (innerCodeBlock) {
+        aiPrompt = innerCodeBlock[1].trim();
+    } else {
+        // Fallback: remove the "Copy this..." header and take the rest
+        aiPrompt = inner.replace(/\*\*Copy this prompt.*?\*\*[\s\S]*?:/i, '').trim();
+    }
+  } else {
+     // Backward compatibility for other formats
+     const oldPromptMatch = content.match(/\*\*Prompt (?:for|to) (?:Fix with )?AI[^*]*\*\*:?\s*([\s\S]*?)(?:\n\n##|\n\n\*\*|$)/i);
+     if (oldPromptMatch) aiPrompt = oldPromptMatch[1].trim();
+  }
+
+  // 4. Extract Description (The primary text)
+  let description = content
+    .replace(/\[PR_COMMENT_START\]/g, '')
+    .replace(/\[PR_COMMENT_END\]/g, '')
+    .replace(/\*\*File\*\*:[^\n]*\n?/gi, '')
+    .replace(/\*\*Line_Start\*\*:[^\n]*\n?/gi, '')
+    .replace(/\*\*Line_End\*\*:[^\n]*\n?/gi, '')
+    .replace(/\*\*Severity\*\*:[^\n]*\n?/gi, '')
+    .replace(/\*\*Confidence\*\*:[^\n]*\n?/gi, '')
+    .replace(/\*\*Title\*\*:[^\n]*\n?/gi, '')
+    // Remove all detail blocks (Suggested Fix, Prompt for AI, etc.)
+    .replace(/<details>[\s\S]*?<\/details>/gi, '')
+    .trim();
+
+  // Determine Title (use explicit or derive from description)
+  let title = titleMatch?.[1] || '';
+  if (!title && description) {
+      // Use first non-empty line as title, truncate if needed
+      const firstLine = description.split('\n').find(l => l.trim().length > 0) || '';
+      title = firstLine.length > 60 ? firstLine.substring(0, 57) + '...' : firstLine;
+  }
+  if (!title) title = 'Issue Identified';
+
+  return {
+    title,
+    severity: severityMatch?.[1] || 'Medium',
+    lineStart: parseInt(lineStartMatch?.[1] || '0'),
+    lineEnd: parseInt(lineEndMatch?.[1] || '0'),
+    description,
+    codeBlock,
+    aiPrompt
+  };
+}
+
+/**
+ * Check whether a string is a known severity level
+ */
+export function isSeverity(value: string): value is Severity {
+  return (SEVERITY_LEVELS as readonly string[]).includes(value.toLowerCase());
+}
+
+/**
+ * Normalize a severity string, defaulting to medium when unknown
+ */
+export function normalizeSeverity(severity: string): Severity {
+  const lower = severity.toLowerCase();
+  return isSeverity(lower) ? lower : 'medium';
+}
+
+/**
+ * Get the severity of a comment (API field first, then parsed content)
+ */
+export function getCommentSeverity(comment: ReviewComment): Severity {
+  return normalizeSeverity(comment.severity || parseCommentMetadata(comment.content).severity);
+}
+
+/**
+ * Check if a severity is at or above the given threshold
+ */
+export function meetsSeverity(severity: Severity, threshold: Severity): boolean {
+  return SEVERITY_LEVELS.indexOf(severity) <= SEVERITY_LEVELS.indexOf(threshold);
+}
+
+export interface SuggestedFix {
+  original: string[] | null; // lines being replaced (diff-style blocks only)
+  replacement: string[];
+  trailingNewline: boolean;  // whether the suggestion ends with a newline
+}
+
+/**
+ * Parse a "Suggested Fix" block into original and replacement lines.
+ * Handles both plain suggestion fences and diff-style (+/-) blocks. A block
+ * is only read as a diff when its fence is tagged `diff` or it has both
+ * added and removed lines, so code like a YAML or markdown list stays intact.
+ */
+export function parseSuggestedFix(codeBlock: string): SuggestedFix | null {
+  const fenceMatch = codeBlock.match(/```([\w-]*)\n([\s\S]*?)```/);
+  const text = fenceMatch ? fenceMatch[2] : codeBlock;
+  const trailingNewline = text.endsWith('\n');
+  const body = text.replace(/\n$/, '');
+  if (!body.trim()) return null;
+
+  const lines = body.split('\n');
+  const tagged = fenceMatch?.[1].toLowerCase() === 'diff';
+  const changes = lines.some(l => l.startsWith('+')) && lines.some(l => l.startsWith('-'));
+  const isDiff = (tagged || changes) && lines.every(l => l === '' || /^[ +-]/.test(l));
+  if (isDiff) {
+    return {
+      original: lines.filter(l => !l.startsWith('+')).map(l => l.substring(1)),
+      replacement: lines.filter(l => !l.startsWith('-')).map(l => l.substring(1)),
+      trailingNewline
+    };
+  }
+  return { original: null, replacement: lines, trailingNewline };
+}
+
+/**
+ * Extract the replacement code from a "Suggested Fix" block
+ * (with its own trailing newline when `keepNewline` is set)
+ */
+export function getSuggestedCode(codeBlock: string, keepNewline = false): string | null {
+  const fix = parseSuggestedFix(codeBlock);
+  if (!fix) return null;
+  return fix.replacement.join('\n') + (keepNewline && fix.trailingNewline ? '\n' : '');
+}
+
+/**
+ * Read the source lines a comment points at (empty if unavailable)
+ */
+function getCommentSnippet(comment: ReviewComment): string {
+  if (!comment.line_start) return '';
+  try {
+    const content = fs.readFileSync(path.join(getRepoPath(), comment.file_path), 'utf-8');
+    const end = Math.max(comment.line_end, comment.line_start);
+    return content.split('\n').slice(comment.line_start - 1, end).join('\n');
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Compute a fingerprint for a comment that stays stable across runs.
+ * Uses the file, normalized title and flagged source text rather than
+ * the comment id or line numbers, which change between reviews.
+ * Pass the flagged lines as reviewed when known; otherwise they are read
+ * from the working tree.
+ */
+export function getCommentFingerprint(comment: ReviewComment, reviewedLines?: string[]): string {
+  const { title } = parseCommentMetadata(comment.content);
+  const normalizedTitle = title.toLowerCase().replace(/\s+/g, ' ').trim();
+  const source = reviewedLines ? reviewedLines.join('\n') : getCommentSnippet(comment);
+  const snippet = source.replace(/\s+/g, ' ').trim();
+  return crypto
+    .createHash('sha256')
+    .update(`${comment.file_path}\0${normalizedTitle}\0${snippet}`)
+    .digest('hex');
+}
@@ -1,57 +1,221 @@
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
+import { getTokenExpiry } from './token.js';
+
+// CLI version (keep in sync with package.json)
+export const CLI_VERSION = '0.0.2';
 
 // Config directory and file paths
 const CONFIG_DIR = path.join(os.homedir(), '.beetle');
 const CONFIG_FILE = path.join(CONFIG_DIR, 'config.json');
 
+// Default service URLs (overridable per profile or with environment variables)
+const DEFAULT_API_URL = 'https://api.beetleai.dev';
+const DEFAULT_WEB_URL = 'https://beetleai.dev';
+
+export const DEFAULT_PROFILE = 'default';
+
+// Settings for a single auth profile
 export interface BeetleConfig {
   authToken?: string;
+  refreshToken?: string;
+  expiresAt?: string; // ISO time the auth token expires, from its `exp` claim
   userId?: string;
   email?: string;
   firstName?: string;
   lastName?: string;
   imageUrl?: string;
+  apiUrl?: string;
+  webUrl?: string;
+}
+
+// Review settings, from flags, environment, .beetle.json or the user config
+export interface ReviewSettings {
+  ignore?: string[];
+  baseBranch?: string;
+  failOn?: string;
+  format?: string;
+  maxFileSize?: number; // bytes
+  instructions?: string;
+  secretPatterns?: string[]; // extra regexes for secret redaction
 }
 
+// Network settings for this machine (the `network` key of config.json)
+export interface NetworkConfig {
+  proxy?: string;   // proxy URL for API requests, e.g. http://proxy.corp:8080
+  noProxy?: string; // comma-separated hosts to reach directly
+  caFile?: string;  // PEM file with extra trusted root certificates
+}
+
+// On-disk layout of config.json
+interface ConfigFile {
+  activeProfile?: string;
+  profiles: Record<string, BeetleConfig>;
+  settings?: unknown; // user-wide review settings (validated where used)
+  network?: NetworkConfig;
+}
+
+// Profile chosen with the global --profile flag
+let profileOverride: string | undefined;
+
+// Service URLs given to `auth login`, saved to the profile once the login succeeds
+let urlOverrides: Pick<BeetleConfig, 'apiUrl' | 'webUrl'> = {};
+
 /**
- * Ensure the config directory exists
+ * Ensure the config directory (or a subdirectory of it) exists
+ * @returns the directory path
  */
-function ensureConfigDir(): void {
-  if (!fs.existsSync(CONFIG_DIR)) {
-    fs.mkdirSync(CONFIG_DIR, { recursive: true });
+export function ensureConfigDir(subdir?: string): string {
+  const dir = subdir ? path.join(CONFIG_DIR, subdir) : CONFIG_DIR;
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
   }
+  return dir;
 }
 
 /**
- * Get the current configuration
+ * Read config.json. Files from before profiles existed hold a single
+ * set of credentials, which become the default profile.
  */
-export function getConfig(): BeetleConfig {
+function readConfigFile(): ConfigFile {
   try {
     if (fs.existsSync(CONFIG_FILE)) {
-      const content = fs.readFileSync(CONFIG_FILE, 'utf-8');
-      return JSON.parse(content);
+      const content = JSON.parse(fs.readFileSync(CONFIG_FILE, 'utf-8'));
+      if (content.profiles) return content;
+      return { profiles: Object.keys(content).length > 0 ? { [DEFAULT_PROFILE]: content } : {} };
     }
   } catch {
     // Return empty config on error
   }
-  return {};
+  return { profiles: {} };
 }
 
 /**
- * Save configuration to disk
+ * Write config.json
  */
-export function saveConfig(config: BeetleConfig): void {
+function writeConfigFile(file: ConfigFile): void {
   ensureConfigDir();
-  fs.writeFileSync(CONFIG_FILE, JSON.stringify(config, null, 2), 'utf-8');
+  fs.writeFileSync(CONFIG_FILE, JSON.stringify(file, null, 2), 'utf-8');
+}
+
+/**
+ * Use a profile for this run only (the global --profile flag)
+ */
+export function setProfileOverride(name: string | undefined): void {
+  profileOverride = name;
+}
+
+/**
+ * Use service URLs for this run only (`auth login --api-url/--web-url`)
+ */
+export function setUrlOverrides(urls: Pick<BeetleConfig, 'apiUrl' | 'webUrl'>): void {
+  urlOverrides = Object.fromEntries(Object.entries(urls).filter(([, url]) => url));
+}
+
+/**
+ * Get the service URLs set for this run
+ */
+export function getUrlOverrides(): Pick<BeetleConfig, 'apiUrl' | 'webUrl'> {
+  return { ...urlOverrides };
+}
+
+/**
+ * Get the name of the profile in use
+ * (--profile, then BEETLE_PROFILE, then the one picked with `beetle auth switch`)
+ */
+export function getActiveProfileName(): string {
+  return profileOverride || process.env.BEETLE_PROFILE?.trim() || readConfigFile().activeProfile || DEFAULT_PROFILE;
+}
+
+/**
+ * Get the profile used when none is picked for a run (set with `beetle auth switch`)
+ */
+export function getDefaultProfileName(): string {
+  return readConfigFile().activeProfile || DEFAULT_PROFILE;
+}
+
+/**
+ * List all profiles with their settings
+ */
+export function listProfiles(): { name: string; config: BeetleConfig; active: boolean }[] {
+  const active = getActiveProfileName();
+  return Object.entries(readConfigFile().profiles)
+    .map(([name, config]) => ({ name, config, active: name === active }));
 }
 
 /**
- * Get the stored auth token
+ * Make a profile the default for future runs
+ */
+export function switchProfile(name: string): void {
+  const file = readConfigFile();
+  if (!file.profiles[name]) {
+    throw new Error(`Profile "${name}" does not exist`);
+  }
+  writeConfigFile({ ...file, activeProfile: name });
+}
+
+/**
+ * Get the current configuration (of the active profile)
+ */
+export function getConfig(): BeetleConfig {
+  return readConfigFile().profiles[getActiveProfileName()] || {};
+}
+
+/**
+ * Save configuration of the active profile to disk
+ */
+export function saveConfig(config: BeetleConfig): void {
+  const file = readConfigFile();
+  file.profiles[getActiveProfileName()] = config;
+  writeConfigFile(file);
+}
+
+/**
+ * Get the user-wide review settings (the `settings` key of config.json)
+ */
+export function getUserSettings(): unknown {
+  return readConfigFile().settings;
+}
+
+/**
+ * Get the network settings (the `network` key of config.json)
+ */
+export function getNetworkConfig(): NetworkConfig {
+  const network = readConfigFile().network;
+  return network && typeof network === 'object' ? network : {};
+}
+
+/**
+ * Get the API base URL (--api-url, BEETLE_API_URL, then the profile's override)
+ */
+export function getApiUrl(): string {
+  return urlOverrides.apiUrl || process.env.BEETLE_API_URL || getConfig().apiUrl || DEFAULT_API_URL;
+}
+
+/**
+ * Get the web app base URL (--web-url, BEETLE_WEB_URL, then the profile's override)
+ */
+export function getWebUrl(): string {
+  return urlOverrides.webUrl || process.env.BEETLE_WEB_URL || getConfig().webUrl || DEFAULT_WEB_URL;
+}
+
+// Where the active credential comes from
+export type AuthSource = 'env' | 'config';
+
+/**
+ * Get the auth token (BEETLE_TOKEN takes precedence over the config file)
  */
 export function getAuthToken(): string | undefined {
-  return getConfig().authToken;
+  return process.env.BEETLE_TOKEN?.trim() || getConfig().authToken;
+}
+
+/**
+ * Get where the active auth token comes from
+ */
+export function getAuthSource(): AuthSource | null {
+  if (process.env.BEETLE_TOKEN?.trim()) return 'env';
+  return getConfig().authToken ? 'config' : null;
 }
 
 /**
@@ -69,6 +233,7 @@ export function saveAuth(token: string, userDetails?: Partial<BeetleConfig>): vo
   saveConfig({
     ...config,
     authToken: token,
+    expiresAt: getTokenExpiry(token)?.toISOString(),
     ...userDetails,
   });
 }
@@ -79,6 +244,8 @@ export function saveAuth(token: string, userDetails?: Partial<BeetleConfig>): vo
 export function clearAuth(): void {
   const config = getConfig();
   delete config.authToken;
+  delete config.refreshToken;
+  delete config.expiresAt;
   delete config.userId;
   delete config.email;
   delete config.firstName;
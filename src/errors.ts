@@ -0,0 +1,41 @@
+/**
+ * Base class for failed Beetle API requests
+ */
+export class ApiError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * The token is missing, expired or revoked (401/403)
+ */
+export class AuthError extends ApiError {}
+
+/**
+ * Too many requests (429), still failing after waiting
+ */
+export class RateLimitError extends ApiError {
+  constructor(message: string, readonly retryAfter?: number) { // ms
+    super(message, 429);
+  }
+}
+
+/**
+ * The request body was larger than the server accepts (413)
+ */
+export class PayloadTooLargeError extends ApiError {
+  constructor(message: string) {
+    super(message, 413);
+  }
+}
+
+/**
+ * The server couldn't be reached or didn't answer in time
+ */
+export class NetworkError extends ApiError {
+  constructor(message: string, readonly cause?: unknown, readonly timedOut: boolean = false) {
+    super(message);
+  }
+}
@@ -0,0 +1,74 @@
+import { ReviewComment } from './api.js';
+import { parseCommentMetadata, getCommentSeverity, SEVERITY_LEVELS } from './comments.js';
+
+export interface FilterQuery {
+  terms: string[];        // free text, fuzzy-matched on file path or comment title
+  severities: string[];   // from sev:<level>[,<level>]
+  paths: string[];        // from path:<substring>
+}
+
+/**
+ * Parse a filter query such as `sev:critical,high path:src/ auth`.
+ * Severity values may be abbreviated (`sev:crit`).
+ */
+export function parseFilterQuery(query: string): FilterQuery {
+  const filter: FilterQuery = { terms: [], severities: [], paths: [] };
+
+  query.trim().split(/\s+/).filter(Boolean).forEach(token => {
+    const match = token.match(/^(sev|severity|path):(.*)$/i);
+    if (!match) {
+      filter.terms.push(token.toLowerCase());
+      return;
+    }
+
+    const [, prefix, value] = match;
+    if (!value) return; // still being typed
+
+    if (prefix.toLowerCase() === 'path') {
+      filter.paths.push(value.toLowerCase());
+    } else {
+      value.toLowerCase().split(',').filter(Boolean).forEach(v => {
+        const levels: string[] = SEVERITY_LEVELS.filter(level => level.startsWith(v));
+        // Unknown severities are kept as-is so they match nothing
+        filter.severities.push(...(levels.length > 0 ? levels : [v]));
+      });
+    }
+  });
+
+  return filter;
+}
+
+/**
+ * Check whether a filter has no constraints
+ */
+export function isEmptyFilter(filter: FilterQuery): boolean {
+  return filter.terms.length === 0 && filter.severities.length === 0 && filter.paths.length === 0;
+}
+
+/**
+ * Case-insensitive subsequence match (e.g. "rvw" matches "review.ts")
+ */
+export function fuzzyMatch(needle: string, haystack: string): boolean {
+  const h = haystack.toLowerCase();
+  let pos = 0;
+  for (const char of needle.toLowerCase()) {
+    pos = h.indexOf(char, pos);
+    if (pos === -1) return false;
+    pos++;
+  }
+  return true;
+}
+
+/**
+ * Check whether a comment matches a parsed filter
+ */
+export function matchesFilter(filter: FilterQuery, comment: ReviewComment): boolean {
+  const filePath = comment.file_path.toLowerCase();
+
+  if (filter.paths.some(p => !filePath.includes(p))) return false;
+  if (filter.severities.length > 0 && !filter.severities.includes(getCommentSeverity(comment))) return false;
+
+  if (filter.terms.length === 0) return true;
+  const { title } = parseCommentMetadata(comment.content);
+  return filter.terms.every(term => fuzzyMatch(term, filePath) || fuzzyMatch(term, title));
+}
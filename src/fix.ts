@@ -0,0 +1,214 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { ReviewComment } from './api.js';
+import { ChangedFile, ReviewTarget, readFilesAt } from './git.js';
+import { getRepoPath } from './guards.js';
+import { parseCommentMetadata, parseSuggestedFix } from './comments.js';
+
+export interface FixPatch {
+  commentId: string;
+  filePath: string;
+  startLine: number; // 1-based line the original lines start at
+  originalLines: string[];
+  replacementLines: string[];
+}
+
+/**
+ * Read a repository file, returning null if it doesn't exist
+ */
+function readRepoFile(filePath: string): string | null {
+  try {
+    return fs.readFileSync(path.join(getRepoPath(), filePath), 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Split file content into lines (without line terminators)
+ */
+function splitLines(content: string): string[] {
+  const lines = content.split(/\r?\n/);
+  if (lines.length > 0 && lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * Hash file content, to tell later whether a file still matches what was reviewed
+ */
+export function hashContent(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Get the lines a comment flags (line_start..line_end) in a file's content
+ */
+function getFlaggedLines(comment: ReviewComment, content: string): string[] {
+  const endLine = Math.max(comment.line_end, comment.line_start);
+  return splitLines(content).slice(comment.line_start - 1, endLine);
+}
+
+/**
+ * Read the reviewed files as they were sent for review, so fixes applied
+ * later can detect edits made since: from the head commit for commit and
+ * range reviews, otherwise from the working tree. Files that can't be read
+ * are left out, and fixes to them are refused.
+ */
+export async function snapshotFiles(files: ChangedFile[], target: ReviewTarget): Promise<Map<string, string>> {
+  const paths = files.filter(f => !f.binary && f.status !== 'deleted').map(f => f.path);
+  if (target.head.sha) {
+    try {
+      return await readFilesAt(target.head.sha, paths);
+    } catch {
+      return new Map();
+    }
+  }
+
+  const snapshots = new Map<string, string>();
+  paths.forEach(filePath => {
+    const content = readRepoFile(filePath);
+    if (content !== null) snapshots.set(filePath, content);
+  });
+  return snapshots;
+}
+
+// What is known about the reviewed version of a comment's file
+export interface ReviewedSource {
+  snippet?: string[]; // the lines the comment flagged, as reviewed
+  fileHash?: string;  // hash of the whole file as reviewed
+}
+
+/**
+ * Capture the lines each comment flagged in the reviewed files, so a later
+ * fix can tell whether they changed. Files come from `snapshots` (read when
+ * the review was submitted) or from the working tree while it still matches
+ * the reviewed hash; comments on other files get no snippet.
+ */
+export function captureSnippets(
+  comments: ReviewComment[],
+  reviewed: { snapshots?: Map<string, string>; fileHashes?: Record<string, string> }
+): Map<string, string[]> {
+  const snippets = new Map<string, string[]>();
+  const current = new Map<string, string | null>();
+
+  comments.forEach(comment => {
+    if (!comment.line_start) return;
+    let content = reviewed.snapshots?.get(comment.file_path);
+    const hash = reviewed.fileHashes?.[comment.file_path];
+    if (content === undefined && hash) {
+      if (!current.has(comment.file_path)) current.set(comment.file_path, readRepoFile(comment.file_path));
+      const file = current.get(comment.file_path);
+      if (file !== null && file !== undefined && hashContent(file) === hash) content = file;
+    }
+    if (content !== undefined) snippets.set(comment.id, getFlaggedLines(comment, content));
+  });
+
+  return snippets;
+}
+
+/**
+ * Find where a block of lines starts in a file.
+ * Prefers the expected position, otherwise requires a unique match.
+ */
+function locateLines(fileLines: string[], block: string[], expectedIndex: number): number | null {
+  const matchesAt = (index: number) =>
+    block.every((line, i) => fileLines[index + i] !== undefined && fileLines[index + i].trimEnd() === line.trimEnd());
+
+  if (block.length === 0) return expectedIndex;
+  if (matchesAt(expectedIndex)) return expectedIndex;
+
+  const candidates: number[] = [];
+  for (let i = 0; i + block.length <= fileLines.length; i++) {
+    if (matchesAt(i)) candidates.push(i);
+  }
+  return candidates.length === 1 ? candidates[0] : null;
+}
+
+/**
+ * Turn a comment's suggested fix into a patch anchored at line_start/line_end.
+ * Plain suggestions replace the lines as they were reviewed: the stored
+ * snippet, or the current lines when the file still matches the reviewed
+ * hash. Without either, later edits can't be detected and the fix is refused.
+ */
+export function buildFixPatch(comment: ReviewComment, reviewed: ReviewedSource = {}): FixPatch {
+  const { codeBlock, lineStart, lineEnd } = parseCommentMetadata(comment.content);
+  const fix = codeBlock ? parseSuggestedFix(codeBlock) : null;
+  if (!fix) {
+    throw new Error('This comment has no suggested fix to apply');
+  }
+
+  const startLine = comment.line_start || lineStart;
+  const endLine = Math.max(comment.line_end || lineEnd, startLine);
+  if (!startLine) {
+    throw new Error('This comment has no line information to anchor the fix');
+  }
+
+  // Diff-style suggestions carry their own original lines
+  let originalLines = fix.original || reviewed.snippet || null;
+  if (!originalLines) {
+    const content = readRepoFile(comment.file_path);
+    if (content === null) {
+      throw new Error(`File not found: ${comment.file_path}`);
+    }
+    if (!reviewed.fileHash || hashContent(content) !== reviewed.fileHash) {
+      throw new Error(
+        `Conflict: can't verify that ${comment.file_path} lines ${startLine}-${endLine} are unchanged ` +
+        `since the review (${reviewed.fileHash ? 'the file changed' : 'no reviewed copy was kept'}). Apply the fix by hand.`
+      );
+    }
+    originalLines = splitLines(content).slice(startLine - 1, endLine);
+  }
+
+  return {
+    commentId: comment.id,
+    filePath: comment.file_path,
+    startLine,
+    originalLines,
+    replacementLines: fix.replacement
+  };
+}
+
+/**
+ * Render a unified diff preview of a patch (uncolored)
+ */
+export function previewFixPatch(patch: FixPatch): string[] {
+  const { filePath, startLine, originalLines, replacementLines } = patch;
+  return [
+    `--- a/${filePath}`,
+    `+++ b/${filePath}`,
+    `@@ -${startLine},${originalLines.length} +${startLine},${replacementLines.length} @@`,
+    ...originalLines.map(l => `-${l}`),
+    ...replacementLines.map(l => `+${l}`)
+  ];
+}
+
+/**
+ * Apply a patch to the working tree.
+ * Throws if the original lines can no longer be found (file changed since the review).
+ * @returns the 1-based line the fix was applied at
+ */
+export function applyFixPatch(patch: FixPatch): number {
+  const content = readRepoFile(patch.filePath);
+  if (content === null) {
+    throw new Error(`File not found: ${patch.filePath}`);
+  }
+
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const hasTrailingNewline = content.endsWith('\n');
+  const fileLines = splitLines(content);
+
+  const index = locateLines(fileLines, patch.originalLines, patch.startLine - 1);
+  if (index === null) {
+    throw new Error(
+      `Conflict: ${patch.filePath} changed since the review and the lines ` +
+      `${patch.startLine}-${patch.startLine + Math.max(0, patch.originalLines.length - 1)} no longer match`
+    );
+  }
+
+  fileLines.splice(index, patch.originalLines.length, ...patch.replacementLines);
+  const updated = fileLines.join(eol) + (hasTrailingNewline ? eol : '');
+  fs.writeFileSync(path.join(getRepoPath(), patch.filePath), updated, 'utf-8');
+
+  return index + 1;
+}
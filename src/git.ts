@@ -1,12 +1,18 @@
-import { execSync } from 'child_process';
-import { getRepoPath } from './guards.js';
+import { execFileSync, spawn } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { getRepoPath, getCurrentBranch } from './guards.js';
+
+export type ChangeStatus = 'added' | 'modified' | 'deleted' | 'renamed' | 'copied' | 'typechange' | 'untracked';
 
 export interface ChangedFile {
   path: string;
-  status: 'added' | 'modified' | 'deleted' | 'untracked';
+  status: ChangeStatus;
+  oldPath?: string; // source path of renamed and copied files
   additions: number;
   deletions: number;
   staged: boolean;
+  binary?: boolean; // git shows "-" for binary files in numstat
 }
 
 export interface GitChanges {
@@ -19,138 +25,225 @@ export interface GitChanges {
   totalDeletions: number;
 }
 
+interface FileStats {
+  additions: number;
+  deletions: number;
+  binary: boolean;
+  oldPath?: string;
+}
+
+// Single-letter status codes used by `git status` and `git diff --name-status`
+const STATUS_CODES: Record<string, ChangeStatus> = {
+  A: 'added',
+  M: 'modified',
+  D: 'deleted',
+  R: 'renamed',
+  C: 'copied',
+  T: 'typechange'
+};
+
+/**
+ * Parse `git diff --numstat -z` output, keyed by (new) path.
+ * Renames and copies come as "<add>\t<del>\t\0<old>\0<new>\0".
+ */
+export function parseNumstat(output: string): Map<string, FileStats> {
+  const stats = new Map<string, FileStats>();
+  const fields = output.split('\0');
+
+  for (let i = 0; i < fields.length; i++) {
+    const match = fields[i].match(/^(-|\d+)\t(-|\d+)\t(.*)$/s);
+    if (!match) continue;
+    const [, added, deleted, filePath] = match;
+    const entry: FileStats = {
+      additions: added === '-' ? 0 : parseInt(added, 10),
+      deletions: deleted === '-' ? 0 : parseInt(deleted, 10),
+      binary: added === '-'
+    };
+    if (filePath) {
+      stats.set(filePath, entry);
+    } else {
+      entry.oldPath = fields[++i];
+      stats.set(fields[++i], entry);
+    }
+  }
+
+  return stats;
+}
+
+/**
+ * Parse `git diff --name-status -z` output into statuses keyed by (new) path
+ */
+export function parseNameStatus(output: string): Map<string, { status: ChangeStatus; oldPath?: string }> {
+  const statuses = new Map<string, { status: ChangeStatus; oldPath?: string }>();
+  const fields = output.split('\0');
+
+  for (let i = 0; i < fields.length; i++) {
+    const code = fields[i].charAt(0);
+    if (!code) continue;
+    const status = STATUS_CODES[code] || 'modified';
+    if (status === 'renamed' || status === 'copied') {
+      const oldPath = fields[++i];
+      statuses.set(fields[++i], { status, oldPath });
+    } else {
+      statuses.set(fields[++i], { status });
+    }
+  }
+
+  return statuses;
+}
+
+export interface StatusEntry {
+  path: string;
+  oldPath?: string;
+  index: string;    // X: status in the index ('.' = unchanged, '?' = untracked)
+  worktree: string; // Y: status in the working tree
+}
+
+/**
+ * Parse `git status --porcelain=v2 -z` output. Ignored entries are skipped
+ * and unmerged paths are reported as modified in both index and working tree.
+ */
+export function parseStatusV2(output: string): StatusEntry[] {
+  const entries: StatusEntry[] = [];
+  const fields = output.split('\0');
+
+  for (let i = 0; i < fields.length; i++) {
+    const field = fields[i];
+    switch (field.charAt(0)) {
+      case '1': {
+        // 1 <XY> <sub> <mH> <mI> <mW> <hH> <hI> <path>
+        const parts = field.split(' ');
+        entries.push({ path: parts.slice(8).join(' '), index: parts[1][0], worktree: parts[1][1] });
+        break;
+      }
+      case '2': {
+        // 2 <XY> <sub> <mH> <mI> <mW> <hH> <hI> <X><score> <path>\0<origPath>
+        const parts = field.split(' ');
+        entries.push({ path: parts.slice(9).join(' '), oldPath: fields[++i], index: parts[1][0], worktree: parts[1][1] });
+        break;
+      }
+      case 'u': {
+        // u <XY> <sub> <m1> <m2> <m3> <mW> <h1> <h2> <h3> <path>
+        entries.push({ path: field.split(' ').slice(10).join(' '), index: 'M', worktree: 'M' });
+        break;
+      }
+      case '?':
+        entries.push({ path: field.substring(2), index: '?', worktree: '?' });
+        break;
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Decide how a `git status` entry compares to HEAD (or to the index's base
+ * when only staged changes are reviewed). Returns null when nothing changed,
+ * e.g. a file added to the index and then deleted from the working tree.
+ */
+function getEntryStatus(entry: StatusEntry, stagedOnly: boolean): ChangeStatus | null {
+  if (entry.index === '?') return stagedOnly ? null : 'untracked';
+  if (stagedOnly) return entry.index === '.' ? null : STATUS_CODES[entry.index] || 'modified';
+
+  // Added in the index stays added, however the working tree changed it since
+  if (entry.index === 'A') return entry.worktree === 'D' ? null : 'added';
+  if (entry.worktree === 'D') return 'deleted';
+  const code = entry.index !== '.' ? entry.index : entry.worktree;
+  return STATUS_CODES[code] || 'modified';
+}
+
+/**
+ * Count the lines of a working tree file (used as additions for untracked files)
+ */
+function countLines(filePath: string): number {
+  try {
+    const content = fs.readFileSync(path.join(getRepoPath(), filePath), 'utf-8');
+    return content.split('\n').length - (content.endsWith('\n') ? 1 : 0);
+  } catch {
+    return 0;
+  }
+}
+
 /**
  * Get all changed files (staged + unstaged + untracked)
  */
-export function getChangedFiles(options: { stagedOnly?: boolean } = {}): GitChanges {
-  const cwd = getRepoPath();
+export function getChangedFiles(options: { stagedOnly?: boolean; target?: ReviewTarget } = {}): GitChanges {
   const files: ChangedFile[] = [];
   
   try {
-    // Get staged changes with stats
-    const stagedOutput = execSync('git diff --cached --numstat', { 
-      encoding: 'utf-8',
-      cwd,
-      stdio: ['pipe', 'pipe', 'pipe']
-    }).trim();
-    
-    if (stagedOutput) {
-      stagedOutput.split('\n').forEach(line => {
-        const parts = line.split('\t');
-        if (parts.length >= 3) {
-          const additions = parts[0] === '-' ? 0 : parseInt(parts[0], 10);
-          const deletions = parts[1] === '-' ? 0 : parseInt(parts[1], 10);
-          const filePath = parts[2];
-          
-          files.push({
-            path: filePath,
-            status: 'modified',
-            additions,
-            deletions,
-            staged: true
-          });
-        }
-      });
+    // Base branch, range or commit reviews diff two points in history
+    if (options.target && options.target.kind !== 'working') {
+      files.push(...getTargetChangedFiles(options.target));
+      return summarizeChanges(files);
     }
-    
-    if (!options.stagedOnly) {
-      // Get unstaged changes with stats
-      const unstagedOutput = execSync('git diff --numstat', { 
-        encoding: 'utf-8',
-        cwd,
-        stdio: ['pipe', 'pipe', 'pipe']
-      }).trim();
-      
-      if (unstagedOutput) {
-        unstagedOutput.split('\n').forEach(line => {
-          const parts = line.split('\t');
-          if (parts.length >= 3) {
-            const additions = parts[0] === '-' ? 0 : parseInt(parts[0], 10);
-            const deletions = parts[1] === '-' ? 0 : parseInt(parts[1], 10);
-            const filePath = parts[2];
-            
-            // Check if already in list (from staged)
-            const existing = files.find(f => f.path === filePath);
-            if (existing) {
-              existing.additions += additions;
-              existing.deletions += deletions;
-            } else {
-              files.push({
-                path: filePath,
-                status: 'modified',
-                additions,
-                deletions,
-                staged: false
-              });
-            }
-          }
-        });
-      }
-      
-      // Get untracked files
-      const untrackedOutput = execSync('git ls-files --others --exclude-standard', { 
-        encoding: 'utf-8',
-        cwd,
-        stdio: ['pipe', 'pipe', 'pipe']
-      }).trim();
-      
-      if (untrackedOutput) {
-        untrackedOutput.split('\n').forEach(filePath => {
-          if (filePath) {
-            // Count lines in file for additions
-            let additions = 0;
-            try {
-              const content = execSync(`wc -l < "${filePath}"`, {
-                encoding: 'utf-8',
-                cwd,
-                stdio: ['pipe', 'pipe', 'pipe']
-              }).trim();
-              additions = parseInt(content, 10) || 0;
-            } catch {
-              additions = 0;
-            }
-            
-            files.push({
-              path: filePath,
-              status: 'untracked',
-              additions,
-              deletions: 0,
-              staged: false
-            });
-          }
+
+    const stagedOnly = !!options.stagedOnly;
+    const entries = parseStatusV2(git(['status', '--porcelain=v2', '-z', '--untracked-files=all']));
+
+    // Line counts against HEAD (staged + unstaged), or the index alone.
+    // Without commits yet, compare against the empty tree.
+    const base = hasCommits() ? 'HEAD' : EMPTY_TREE_SHA;
+    const stats = parseNumstat(git(stagedOnly
+      ? ['diff', '--cached', '--numstat', '-z', '-M', base]
+      : ['diff', '--numstat', '-z', '-M', base]));
+
+    entries.forEach(entry => {
+      const status = getEntryStatus(entry, stagedOnly);
+      if (!status) return;
+
+      if (status === 'untracked') {
+        const binary = isBinaryFile(entry.path);
+        files.push({
+          path: entry.path,
+          status,
+          additions: binary ? 0 : countLines(entry.path),
+          deletions: 0,
+          staged: false,
+          binary
         });
+        return;
       }
-    }
-    
-    // Get status to determine added/deleted
-    const statusOutput = execSync('git status --porcelain', { 
-      encoding: 'utf-8',
-      cwd,
-      stdio: ['pipe', 'pipe', 'pipe']
-    }).trim();
-    
-    if (statusOutput) {
-      statusOutput.split('\n').forEach(line => {
-        const status = line.substring(0, 2);
-        const filePath = line.substring(3).trim();
-        
-        const file = files.find(f => f.path === filePath);
-        if (file) {
-          if (status.includes('A')) {
-            file.status = 'added';
-          } else if (status.includes('D')) {
-            file.status = 'deleted';
-          } else if (status === '??') {
-            file.status = 'untracked';
-          }
-        }
+
+      const stat = stats.get(entry.path);
+      files.push({
+        path: entry.path,
+        status,
+        ...(entry.oldPath && (status === 'renamed' || status === 'copied') ? { oldPath: entry.oldPath } : {}),
+        additions: stat?.additions || 0,
+        deletions: stat?.deletions || 0,
+        staged: entry.index !== '.',
+        binary: stat?.binary || false
       });
-    }
+    });
     
   } catch (error) {
     // Return empty on error
   }
   
+  return summarizeChanges(files);
+}
+
+/**
+ * Check whether a working tree file is binary (a NUL byte in its first 8000 bytes, like git)
+ */
+export function isBinaryFile(filePath: string): boolean {
+  let fd: number | undefined;
+  try {
+    fd = fs.openSync(path.join(getRepoPath(), filePath), 'r');
+    const buffer = Buffer.alloc(8000);
+    const bytesRead = fs.readSync(fd, buffer, 0, buffer.length, 0);
+    return buffer.subarray(0, bytesRead).includes(0);
+  } catch {
+    return false;
+  } finally {
+    if (fd !== undefined) fs.closeSync(fd);
+  }
+}
+
+/**
+ * Calculate totals for a list of changed files
+ */
+export function summarizeChanges(files: ChangedFile[]): GitChanges {
   // Calculate totals
   let addedCount = 0;
   let modifiedCount = 0;
@@ -160,8 +253,8 @@ export function getChangedFiles(options: { stagedOnly?: boolean } = {}): GitChan
   
   files.forEach(f => {
     if (f.status === 'added' || f.status === 'untracked') addedCount++;
-    else if (f.status === 'modified') modifiedCount++;
     else if (f.status === 'deleted') deletedCount++;
+    else modifiedCount++;
     
     totalAdditions += f.additions;
     totalDeletions += f.deletions;
@@ -177,3 +270,442 @@ export function getChangedFiles(options: { stagedOnly?: boolean } = {}): GitChan
     totalDeletions
   };
 }
+
+// ==============================================================
+// Review Targets (base branch, commit range, single commit)
+// ==============================================================
+
+export interface CommitInfo {
+  sha: string;
+  message: string;
+  author: { name: string; email: string; date: string };
+}
+
+export interface ReviewTarget {
+  kind: 'working' | 'base' | 'range' | 'commit';
+  label: string; // human-readable description for the UI
+  base: { ref: string; sha: string };
+  head: { ref: string; sha: string | null }; // null sha = working tree
+  commits: CommitInfo[];
+}
+
+// Git's well-known empty tree, used as the base of root commits
+const EMPTY_TREE_SHA = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
+/**
+ * Run git with an argument array (no shell interpolation)
+ */
+function git(args: string[], cwd: string = getRepoPath()): string {
+  return execFileSync('git', args, {
+    encoding: 'utf-8',
+    cwd,
+    stdio: ['pipe', 'pipe', 'pipe'],
+    maxBuffer: 256 * 1024 * 1024
+  });
+}
+
+/**
+ * Resolve a ref to a commit sha, throwing a readable error if it doesn't exist
+ */
+function resolveCommit(ref: string): string {
+  try {
+    return git(['rev-parse', '--verify', '--quiet', `${ref}^{commit}`]).trim();
+  } catch {
+    throw new Error(`Unknown git ref: ${ref}`);
+  }
+}
+
+/**
+ * Check whether the repository has any commits yet
+ */
+function hasCommits(): boolean {
+  try {
+    git(['rev-parse', '--verify', '--quiet', 'HEAD']);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Compute the merge-base of two commits
+ */
+function getMergeBase(a: string, b: string): string {
+  try {
+    return git(['merge-base', a, b]).trim();
+  } catch {
+    throw new Error(`No common ancestor between ${a} and ${b}`);
+  }
+}
+
+/**
+ * Get commit messages and authors for a range (oldest first)
+ */
+function getCommits(range: string[]): CommitInfo[] {
+  const output = git(['log', '--reverse', '--format=%H%x1f%an%x1f%ae%x1f%aI%x1f%B%x1e', ...range]);
+  return output
+    .split('\x1e')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const [sha, name, email, date, message] = entry.split('\x1f');
+      return { sha, message: (message || '').trim(), author: { name, email, date } };
+    });
+}
+
+/**
+ * Short sha for display
+ */
+function shortSha(sha: string): string {
+  return sha.substring(0, 7);
+}
+
+/**
+ * Resolve what a review compares: the working tree against HEAD (default),
+ * against the merge-base with a branch, a commit range, or a single commit.
+ */
+export function resolveReviewTarget(options: { base?: string; range?: string; commit?: string } = {}): ReviewTarget {
+  const selected = [options.base, options.range, options.commit].filter(Boolean).length;
+  if (selected > 1) {
+    throw new Error('Use only one of --base, --range or --commit');
+  }
+
+  if (options.base) {
+    const headSha = resolveCommit('HEAD');
+    const mergeBase = getMergeBase(resolveCommit(options.base), headSha);
+    return {
+      kind: 'base',
+      label: `${getCurrentBranch()} (working tree) → ${options.base} @ ${shortSha(mergeBase)}`,
+      base: { ref: options.base, sha: mergeBase },
+      head: { ref: getCurrentBranch(), sha: null },
+      commits: getCommits([`${mergeBase}..${headSha}`])
+    };
+  }
+
+  if (options.range) {
+    const match = options.range.match(/^(.+?)\.{2,3}(.+)$/);
+    if (!match) {
+      throw new Error(`Invalid range "${options.range}". Expected A..B`);
+    }
+    const [, from, to] = match;
+    const toSha = resolveCommit(to);
+    const mergeBase = getMergeBase(resolveCommit(from), toSha);
+    return {
+      kind: 'range',
+      label: `${from}..${to} (merge-base ${shortSha(mergeBase)})`,
+      base: { ref: from, sha: mergeBase },
+      head: { ref: to, sha: toSha },
+      commits: getCommits([`${mergeBase}..${toSha}`])
+    };
+  }
+
+  if (options.commit) {
+    const sha = resolveCommit(options.commit);
+    let parent = EMPTY_TREE_SHA;
+    try {
+      parent = git(['rev-parse', '--verify', '--quiet', `${sha}^`]).trim();
+    } catch {
+      // Root commit: compare against the empty tree
+    }
+    return {
+      kind: 'commit',
+      label: `commit ${shortSha(sha)}`,
+      base: { ref: parent === EMPTY_TREE_SHA ? '(root)' : `${shortSha(sha)}^`, sha: parent },
+      head: { ref: options.commit, sha },
+      commits: getCommits(['-1', sha])
+    };
+  }
+
+  let headSha = '';
+  try {
+    headSha = resolveCommit('HEAD');
+  } catch {
+    // No commits yet
+  }
+  return {
+    kind: 'working',
+    label: `${getCurrentBranch()} (working tree) → HEAD`,
+    base: { ref: 'HEAD', sha: headSha },
+    head: { ref: getCurrentBranch(), sha: null },
+    commits: []
+  };
+}
+
+/**
+ * Get the git diff arguments that compare a target's base and head
+ */
+export function getTargetDiffArgs(target: ReviewTarget): string[] {
+  if (target.kind === 'working') return [hasCommits() ? 'HEAD' : EMPTY_TREE_SHA];
+  return target.head.sha ? [target.base.sha, target.head.sha] : [target.base.sha];
+}
+
+/**
+ * Get changed files between a target's base and head
+ */
+function getTargetChangedFiles(target: ReviewTarget): ChangedFile[] {
+  const diffArgs = getTargetDiffArgs(target);
+  // Detect copies too, like the diffs that are uploaded
+  const stats = parseNumstat(git(['diff', '--numstat', '-z', '-M', '-C', ...diffArgs]));
+  const statuses = parseNameStatus(git(['diff', '--name-status', '-z', '-M', '-C', ...diffArgs]));
+
+  const files: ChangedFile[] = [...statuses].map(([filePath, { status, oldPath }]) => {
+    const stat = stats.get(filePath);
+    return {
+      path: filePath,
+      status,
+      ...(oldPath ? { oldPath } : {}),
+      additions: stat?.additions || 0,
+      deletions: stat?.deletions || 0,
+      staged: false,
+      binary: stat?.binary || false
+    };
+  });
+
+  // Comparing against the working tree also picks up untracked files
+  if (!target.head.sha) {
+    git(['ls-files', '-z', '--others', '--exclude-standard']).split('\0').filter(Boolean).forEach(filePath => {
+      const binary = isBinaryFile(filePath);
+      files.push({ path: filePath, status: 'untracked', additions: binary ? 0 : countLines(filePath), deletions: 0, staged: false, binary });
+    });
+  }
+
+  return files;
+}
+
+/**
+ * Get the size of a changed file in bytes (at the target's head, or in the working tree)
+ */
+export function getFileSize(filePath: string, target?: ReviewTarget): number {
+  try {
+    if (target?.head.sha) {
+      return parseInt(git(['cat-file', '-s', `${target.head.sha}:${filePath}`]), 10) || 0;
+    }
+    return fs.statSync(path.join(getRepoPath(), filePath)).size;
+  } catch {
+    // Deleted files have no size
+    return 0;
+  }
+}
+
+// ==============================================================
+// Bulk reads for payload building (no per-file processes)
+// ==============================================================
+
+// Files read from the working tree at the same time
+const FILE_READ_CONCURRENCY = 16;
+
+// Keep each git invocation's pathspec well below the OS argument limit
+const MAX_PATHSPEC_LENGTH = 128 * 1024;
+
+/**
+ * Run git asynchronously with an argument array (no shell interpolation)
+ */
+export function runGit(args: string[], input?: string, cwd: string = getRepoPath()): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = spawn('git', args, { cwd, stdio: ['pipe', 'pipe', 'pipe'] });
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    child.stdout.on('data', chunk => stdout.push(chunk));
+    child.stderr.on('data', chunk => stderr.push(chunk));
+    child.on('error', reject);
+    child.on('close', code => {
+      if (code === 0) {
+        resolve(Buffer.concat(stdout));
+      } else {
+        reject(new Error(Buffer.concat(stderr).toString('utf-8').trim() || `git ${args[0]} exited with code ${code}`));
+      }
+    });
+    child.stdin.end(input);
+  });
+}
+
+/**
+ * Map over items with at most `limit` calls in flight
+ */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Split pathspecs into chunks whose combined length fits on one command line
+ * (each file's paths stay together so renames are still detected)
+ */
+function chunkPaths(groups: string[][]): string[][] {
+  const chunks: string[][] = [];
+  let current: string[] = [];
+  let length = 0;
+  groups.forEach(group => {
+    const groupLength = group.reduce((sum, p) => sum + p.length + 1, 0);
+    if (current.length > 0 && length + groupLength > MAX_PATHSPEC_LENGTH) {
+      chunks.push(current);
+      current = [];
+      length = 0;
+    }
+    current.push(...group);
+    length += groupLength;
+  });
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * Read working tree files (missing or unreadable files read as empty)
+ */
+export async function readWorkingFiles(paths: string[]): Promise<Map<string, string>> {
+  const repoPath = getRepoPath();
+  const contents = await mapWithConcurrency(paths, FILE_READ_CONCURRENCY, async filePath => {
+    try {
+      return await fs.promises.readFile(path.join(repoPath, filePath), 'utf-8');
+    } catch {
+      return '';
+    }
+  });
+  return new Map(paths.map((p, i) => [p, contents[i]]));
+}
+
+/**
+ * Read files as of a commit with a single `git cat-file --batch`
+ * (files missing at that commit read as empty)
+ */
+export async function readFilesAt(sha: string, paths: string[]): Promise<Map<string, string>> {
+  const contents = new Map<string, string>();
+  // cat-file reads one object name per line
+  const readable = paths.filter(p => !p.includes('\n'));
+  readable.forEach(p => contents.set(p, ''));
+  if (readable.length === 0) return contents;
+
+  const output = await runGit(['cat-file', '--batch'], readable.map(p => `${sha}:${p}\n`).join(''));
+  let pos = 0;
+  for (const filePath of readable) {
+    const eol = output.indexOf(0x0a, pos);
+    if (eol === -1) break;
+    const header = output.toString('utf-8', pos, eol);
+    pos = eol + 1;
+    // "<oid> <type> <size>", or "<name> missing"
+    const size = header.endsWith(' missing') ? -1 : parseInt(header.split(' ')[2], 10);
+    if (!(size >= 0)) continue;
+    contents.set(filePath, output.toString('utf-8', pos, pos + size));
+    pos += size + 1;
+  }
+  return contents;
+}
+
+/**
+ * Undo git's C-style quoting of unusual paths ("t\303\251st \"q\".txt")
+ */
+export function unquoteGitPath(quoted: string): string {
+  if (!quoted.startsWith('"') || !quoted.endsWith('"')) return quoted;
+  const escapes: Record<string, number> = { a: 7, b: 8, f: 12, n: 10, r: 13, t: 9, v: 11 };
+  const bytes: number[] = [];
+  const body = quoted.slice(1, -1);
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char !== '\\') {
+      bytes.push(...Buffer.from(char, 'utf-8'));
+      continue;
+    }
+    const next = body[++i];
+    if (/[0-7]/.test(next)) {
+      bytes.push(parseInt(body.substring(i, i + 3), 8));
+      i += 2;
+    } else {
+      bytes.push(escapes[next] ?? next.charCodeAt(0));
+    }
+  }
+  return Buffer.from(bytes).toString('utf-8');
+}
+
+/**
+ * Find the (new) path a single file's diff is about
+ */
+function getDiffPath(fileDiff: string): string | null {
+  const header = fileDiff.split('\n');
+  // Names with spaces get a trailing tab on the ---/+++ lines
+  const stripName = (name: string) => unquoteGitPath(name.replace(/\t$/, '')).substring(2);
+  let oldPath: string | null = null;
+  for (const line of header) {
+    if (line.startsWith('@@')) break;
+    if (line.startsWith('rename to ')) return unquoteGitPath(line.substring(10));
+    if (line.startsWith('copy to ')) return unquoteGitPath(line.substring(8));
+    if (line.startsWith('--- ') && line !== '--- /dev/null') oldPath = stripName(line.substring(4));
+    if (line.startsWith('+++ ')) {
+      return line === '+++ /dev/null' ? oldPath : stripName(line.substring(4));
+    }
+  }
+
+  // Binary and mode-only changes have no ---/+++ lines: "diff --git a/<p> b/<p>"
+  const names = header[0].substring('diff --git '.length);
+  if (names.startsWith('"')) {
+    const end = names.search(/(?<!\\)" /);
+    return end === -1 ? null : unquoteGitPath(names.substring(end + 2)).substring(2);
+  }
+  return names.substring(2, 2 + (names.length - 5) / 2);
+}
+
+export interface DiffPart {
+  path: string | null; // null for output that isn't about one file
+  text: string;
+}
+
+/**
+ * Format a file git doesn't track as a new-file diff, since git diff leaves
+ * untracked files out
+ */
+export function formatNewFileDiff(filePath: string, content: string): string {
+  let text = `diff --git a/${filePath} b/${filePath}\nnew file mode 100644\n`;
+  if (!content) return text;
+
+  const lines = content.split('\n');
+  const complete = lines[lines.length - 1] === '';
+  if (complete) lines.pop();
+  text += `--- /dev/null\n+++ b/${filePath}\n@@ -0,0 +1${lines.length === 1 ? '' : `,${lines.length}`} @@\n`;
+  text += lines.map(line => `+${line}\n`).join('');
+  return complete ? text : `${text}\\ No newline at end of file\n`;
+}
+
+/**
+ * Diff the given files with one git invocation (more only for very long
+ * pathspecs) and split the output per file.
+ * @returns the combined diff, its parts in order, and each file's part keyed by (new) path
+ */
+export async function getFileDiffs(
+  files: ChangedFile[],
+  diffArgs: string[]
+): Promise<{ fullDiff: string; parts: DiffPart[]; patches: Map<string, string> }> {
+  const parts: DiffPart[] = [];
+  // Renames and copies need both paths in the pathspec
+  const paths = files.map(f => f.oldPath ? [f.oldPath, f.path] : [f.path]);
+
+  for (const chunk of chunkPaths(paths)) {
+    const output = (await runGit([
+      '--literal-pathspecs', 'diff', '-M', '-C', '--no-color', '--no-ext-diff',
+      '--src-prefix=a/', '--dst-prefix=b/', ...diffArgs, '--', ...chunk
+    ])).toString('utf-8');
+
+    output.split(/^(?=diff --git )/m).filter(Boolean).forEach(text => {
+      const filePath = text.startsWith('diff --git ') ? getDiffPath(text) : null;
+      const last = parts[parts.length - 1];
+      // Type changes come as two consecutive diffs of the same path
+      if (filePath !== null && last?.path === filePath) {
+        last.text += text;
+      } else {
+        parts.push({ path: filePath, text });
+      }
+    });
+  }
+
+  const patches = new Map<string, string>();
+  parts.forEach(part => {
+    if (part.path !== null) patches.set(part.path, (patches.get(part.path) || '') + part.text);
+  });
+  return { fullDiff: parts.map(part => part.text).join(''), parts, patches };
+}
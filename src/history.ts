@@ -0,0 +1,149 @@
+import fs from 'fs';
+import path from 'path';
+import { ensureConfigDir } from './config.js';
+import { getRepoPath, getRepoName, getCurrentBranch } from './guards.js';
+import { ReviewComment } from './api.js';
+import { getCommentFingerprint } from './comments.js';
+import { ReviewTarget } from './git.js';
+
+export interface ReviewRecord {
+  version: 1;
+  dataId: string;
+  repoPath: string;
+  repoName: string;
+  branch: string;
+  commitSha: string;
+  target: string; // what was compared, e.g. "main (working tree) → HEAD"
+  createdAt: string;
+  status: string;
+  files: string[];
+  comments: ReviewComment[];
+  fileHashes?: Record<string, string>; // hash of each reviewed file, to detect later edits
+  snippets?: Record<string, string[]>; // comment id -> the lines it flagged, as reviewed
+  fingerprints?: Record<string, string>; // comment id -> triage fingerprint, fixed once computed
+}
+
+/**
+ * Get the history directory (~/.beetle/history)
+ */
+function getHistoryDir(): string {
+  return ensureConfigDir('history');
+}
+
+/**
+ * Get the file a review is stored in
+ */
+function getRecordPath(dataId: string): string {
+  return path.join(getHistoryDir(), `${dataId.replace(/[^\w.-]/g, '_')}.json`);
+}
+
+export type ReviewTargetInfo = Pick<ReviewRecord, 'branch' | 'commitSha' | 'target'>;
+
+/**
+ * Describe a review target for storage
+ */
+export function getTargetInfo(target: ReviewTarget): ReviewTargetInfo {
+  return {
+    branch: target.head.ref || getCurrentBranch(),
+    commitSha: target.head.sha || target.base.sha,
+    target: target.label
+  };
+}
+
+/**
+ * Store a review locally. Saving the same review again updates it
+ * but keeps its original creation time, file hashes, snippets and
+ * fingerprints (new ones are added). Comments are fingerprinted from
+ * their reviewed snippets, so later edits don't change their identity.
+ */
+export function saveReview(review: {
+  dataId: string;
+  info: ReviewTargetInfo;
+  files: string[];
+  comments: ReviewComment[];
+  status: string;
+  fileHashes?: Record<string, string>;
+  snippets?: Map<string, string[]>;
+  fingerprints?: Map<string, string>;
+}): ReviewRecord {
+  const file = getRecordPath(review.dataId);
+  let previous: Partial<ReviewRecord> = {};
+  try {
+    previous = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch {
+    // First save
+  }
+
+  const record: ReviewRecord = {
+    version: 1,
+    dataId: review.dataId,
+    repoPath: getRepoPath(),
+    repoName: getRepoName(),
+    ...review.info,
+    createdAt: previous.createdAt || new Date().toISOString(),
+    status: review.status,
+    files: review.files,
+    comments: review.comments,
+    fileHashes: review.fileHashes || previous.fileHashes,
+    snippets: { ...previous.snippets, ...Object.fromEntries(review.snippets || []) },
+    fingerprints: { ...previous.fingerprints, ...Object.fromEntries(review.fingerprints || []) }
+  };
+  record.comments.forEach(c => {
+    record.fingerprints![c.id] ??= getCommentFingerprint(c, record.snippets?.[c.id]);
+  });
+  fs.writeFileSync(file, JSON.stringify(record, null, 2), 'utf-8');
+  return record;
+}
+
+/**
+ * List stored reviews, newest first (optionally only for one repository)
+ */
+export function listReviews(repoPath?: string): ReviewRecord[] {
+  const dir = getHistoryDir();
+  const records: ReviewRecord[] = [];
+
+  fs.readdirSync(dir).filter(f => f.endsWith('.json')).forEach(f => {
+    try {
+      const record: ReviewRecord = JSON.parse(fs.readFileSync(path.join(dir, f), 'utf-8'));
+      if (!repoPath || record.repoPath === repoPath) records.push(record);
+    } catch {
+      // Skip unreadable records
+    }
+  });
+
+  return records.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Find a stored review by data id or unique id prefix
+ */
+export function findReview(idOrPrefix: string): ReviewRecord | null {
+  const matches = listReviews().filter(r => r.dataId === idOrPrefix || r.dataId.startsWith(idOrPrefix));
+  const exact = matches.find(r => r.dataId === idOrPrefix);
+  if (exact) return exact;
+  if (matches.length > 1) {
+    throw new Error(`Review id "${idOrPrefix}" is ambiguous (${matches.length} matches)`);
+  }
+  return matches[0] || null;
+}
+
+/**
+ * Find the most recent review in this repository that is still running
+ * (detached, or left behind when the terminal closed)
+ */
+export function findRunningReview(): ReviewRecord | null {
+  return listReviews(getRepoPath()).find(r => r.status === 'running') || null;
+}
+
+/**
+ * Find a stored comment by id (searching this repository's reviews first)
+ */
+export function findStoredComment(commentId: string): { review: ReviewRecord; comment: ReviewComment } | null {
+  const repoPath = getRepoPath();
+  const reviews = listReviews().sort((a, b) => Number(b.repoPath === repoPath) - Number(a.repoPath === repoPath));
+  for (const review of reviews) {
+    const comment = review.comments.find(c => c.id === commentId);
+    if (comment) return { review, comment };
+  }
+  return null;
+}
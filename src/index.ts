@@ -4,8 +4,20 @@ import { Command } from 'commander';
 import { intro, outro, note } from '@clack/prompts';
 import gradient from 'gradient-string';
 import pc from 'picocolors';
-import { loginCommand, logoutCommand, statusCommand } from './commands/auth.js';
+import { 
+  loginCommand, 
+  logoutCommand, 
+  statusCommand, 
+  listCommand, 
+  switchCommand, 
+  reauthenticate 
+} from './commands/auth.js';
 import { reviewCommand } from './commands/review.js';
+import { fixCommand } from './commands/fix.js';
+import { historyCommand, showCommand } from './commands/history.js';
+import { mockServerCommand } from './commands/dev.js';
+import { CLI_VERSION, setProfileOverride } from './config.js';
+import { setReauthenticateHandler } from './api.js';
 
 // Linear gradient for BEETLE branding
 const beetleGradient = gradient(['#5ea58e', '#6bb85f', '#64b394', '#a5ce59', '#dfc48f']);
@@ -27,8 +39,13 @@ const COMMAND_GROUPS = [
     title: 'Authentication',
     commands: [
       { command: 'beetle auth login', description: 'Authenticate with your Beetle account' },
+      { command: 'beetle auth login --device', description: 'Log in from a machine without a browser' },
+      { command: 'beetle auth login --with-token', description: 'Log in with a token read from stdin' },
       { command: 'beetle auth logout', description: 'Log out from your account' },
       { command: 'beetle auth status', description: 'Check authentication status' },
+      { command: 'beetle auth login --profile work', description: 'Log in to another account' },
+      { command: 'beetle auth list', description: 'List auth profiles' },
+      { command: 'beetle auth switch <profile>', description: 'Change the default profile' },
     ]
   },
   {
@@ -36,7 +53,21 @@ const COMMAND_GROUPS = [
     commands: [
       { command: 'beetle review', description: 'Start a code review on current branch' },
       { command: 'beetle review --staged', description: 'Review only staged files' },
+      { command: 'beetle review --base main', description: 'Review changes against a base branch' },
+      { command: 'beetle review --attach', description: 'Resume a detached review' },
       { command: 'beetle review --prompt-only', description: 'Stream AI prompts only (no interactive UI)' },
+      { command: 'beetle review --ci', description: 'Headless review for CI pipelines' },
+      { command: 'beetle review --format sarif', description: 'Write review comments as SARIF 2.1.0' },
+      { command: 'beetle review --format json', description: 'Write review results as JSON (or jsonl)' },
+      { command: 'beetle fix <commentId>', description: 'Apply a comment\'s suggested fix' },
+      { command: 'beetle history', description: 'List past reviews for this repository' },
+      { command: 'beetle show <id>', description: 'Reopen a past review' },
+    ]
+  },
+  {
+    title: 'Development',
+    commands: [
+      { command: 'beetle dev mock-server', description: 'Serve a local mock API for offline testing' },
     ]
   },
   {
@@ -91,13 +122,20 @@ function showWelcome(): void {
   outro(pc.green('✓ Happy coding with Beetle!'));
 }
 
+// Offer to log in again when a session expires mid-command
+setReauthenticateHandler(reauthenticate);
+
 // Create CLI program
 const program = new Command();
 
 program
   .name('beetle')
   .description('AI-Powered Code Review Assistant CLI')
-  .version('0.0.2', '-v, --version');
+  .version(CLI_VERSION, '-v, --version')
+  .option('-p, --profile <name>', 'Auth profile to use (default: BEETLE_PROFILE or the active profile)')
+  .hook('preAction', () => {
+    setProfileOverride(program.opts().profile);
+  });
 
 // Auth commands
 const authCommand = program
@@ -107,8 +145,12 @@ const authCommand = program
 authCommand
   .command('login')
   .description('Log in to your Beetle account')
-  .action(async () => {
-    await loginCommand();
+  .option('--device', 'Log in with a code from another device (for SSH, containers and CI)')
+  .option('--with-token', 'Read a token from stdin instead of opening a browser')
+  .option('--api-url <url>', 'API base URL for this profile')
+  .option('--web-url <url>', 'Web app base URL for this profile')
+  .action(async (options) => {
+    await loginCommand(options);
   });
 
 authCommand
@@ -125,6 +167,20 @@ authCommand
     await statusCommand();
   });
 
+authCommand
+  .command('list')
+  .description('List auth profiles')
+  .action(async () => {
+    await listCommand();
+  });
+
+authCommand
+  .command('switch <profile>')
+  .description('Change the default auth profile')
+  .action(async (profile) => {
+    await switchCommand(profile);
+  });
+
 
 
 program
@@ -133,10 +189,65 @@ program
   .option('--prompt-only', 'Extract and show only AI prompts')
   .option('--staged', 'Review only staged files')
   .option('--all', 'Review all changed files (default)')
+  .option('--base <ref>', 'Review changes since the merge-base with a branch')
+  .option('--range <A..B>', 'Review the commits in a range')
+  .option('--commit <sha>', 'Review a single commit')
+  .option('--attach [dataId]', 'Re-attach to a running review (default: the latest detached one)')
+  .option('--ci', 'Run headless for CI pipelines (no interactive UI)')
+  .option('--fail-on <severity>', 'Exit non-zero when comments meet this severity (critical|high|medium|low)')
+  .option('--timeout <seconds>', 'Give up on a stuck analysis after this many seconds (CI mode, default: 1800)')
+  .option('--format <format>', 'Output format for headless runs (text|sarif|json|jsonl)')
+  .option('--output <file>', 'Write the report to a file instead of stdout')
+  .option('--dry-run', 'Show the payload that would be uploaded without submitting it')
+  .option('--no-upload-on-secret', 'Abort instead of redacting when likely secrets are found')
   .action(async (options) => {
     await reviewCommand(options);
   });
 
+program
+  .command('fix <commentId>')
+  .description('Apply a review comment\'s suggested fix to the working tree')
+  .option('--review <dataId>', 'Review the comment belongs to (default: search local history)')
+  .option('-y, --yes', 'Apply without confirmation')
+  .action(async (commentId, options) => {
+    await fixCommand(commentId, options);
+  });
+
+program
+  .command('history')
+  .description('List past reviews stored locally')
+  .option('--all', 'Include reviews from all repositories')
+  .option('--limit <n>', 'Maximum number of reviews to list (default: 20)')
+  .action(async (options) => {
+    await historyCommand(options);
+  });
+
+program
+  .command('show [id]')
+  .description('Reopen a stored review (default: the most recent one)')
+  .action(async (id) => {
+    await showCommand(id);
+  });
+
+// Development commands
+const devCommand = program
+  .command('dev')
+  .description('Tools for developing against the Beetle API');
+
+devCommand
+  .command('mock-server')
+  .description('Serve a local mock of the review API with scripted scenarios')
+  .option('--scenario <name>', 'trickle|fail|interrupt|unauthorized|slow (default: trickle)')
+  .option('--port <port>', 'Port to listen on (default: any free port)')
+  .option('--host <host>', 'Address to listen on (default: 127.0.0.1)')
+  .option('--comments <n>', 'Comments posted per review')
+  .option('--interval <ms>', 'Delay between comments (default: 1000)')
+  .option('--latency <ms>', 'Delay added to every response in the slow scenario (default: 3000)')
+  .option('--no-stream', 'Disable the event stream so the CLI polls instead')
+  .action(async (options) => {
+    await mockServerCommand(options);
+  });
+
 
 
 program
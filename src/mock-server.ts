@@ -0,0 +1,346 @@
+import http from 'http';
+import crypto from 'crypto';
+import { gunzipSync } from 'zlib';
+import { ReviewComment, AnalysisState } from './api.js';
+import { SEVERITY_LEVELS } from './comments.js';
+
+// What the mock server does with each review:
+//   trickle       comments arrive one at a time, then the analysis completes
+//   fail          a couple of comments, then the analysis fails
+//   interrupt     a couple of comments, then the analysis is interrupted
+//   unauthorized  every request is rejected with 401
+//   slow          like trickle, but every response is delayed
+export const MOCK_SCENARIOS = ['trickle', 'fail', 'interrupt', 'unauthorized', 'slow'] as const;
+export type MockScenario = typeof MOCK_SCENARIOS[number];
+
+export interface MockServerOptions {
+  port?: number;            // default 0 (any free port)
+  host?: string;            // default 127.0.0.1
+  scenario?: MockScenario;  // default trickle
+  comments?: number;        // comments per review (default 5; 2 for fail and interrupt)
+  interval?: number;        // ms between comments (default 1000)
+  latency?: number;         // ms added to every response in the slow scenario (default 3000)
+  stream?: boolean;         // serve the event stream (default true; false makes the CLI poll)
+  onRequest?: (method: string, url: string, status: number) => void;
+}
+
+export interface MockReview {
+  dataId: string;
+  payload: any;              // the uploaded review, with batched files merged in
+  comments: ReviewComment[]; // comments posted so far
+  status: AnalysisState;
+}
+
+export interface MockServer {
+  url: string; // what to set BEETLE_API_URL to
+  reviews: Map<string, MockReview>;
+  close(): Promise<void>;
+}
+
+// Defaults for the scripted analysis
+const DEFAULT_COMMENTS = 5;
+const DEFAULT_FAILING_COMMENTS = 2;
+const DEFAULT_INTERVAL = 1000;
+const DEFAULT_LATENCY = 3000;
+
+// Largest request body accepted, like the real API
+const MAX_BODY_SIZE = 50 * 1024 * 1024;
+
+// Account reported by whoami
+const MOCK_ACCOUNT = {
+  userId: 'mock-user',
+  email: 'dev@beetle.local',
+  firstName: 'Mock',
+  lastName: 'User'
+};
+
+interface ReviewState extends MockReview {
+  timer?: NodeJS.Timeout;
+  listeners: Set<() => void>; // open event streams
+}
+
+/**
+ * Get the text of an uploaded file's patch (gzipped patches are unpacked)
+ */
+function getFilePatch(file: any): string {
+  if (typeof file.patch === 'string') return file.patch;
+  if (file.patch_compressed) {
+    try {
+      return gunzipSync(Buffer.from(file.patch_compressed, 'base64')).toString('utf-8');
+    } catch {
+      return '';
+    }
+  }
+  return '';
+}
+
+/**
+ * Get the first added line of a patch, to point a comment at
+ * (hunks that empty a file start at line 0)
+ */
+function getFirstChangedLine(patch: string): number {
+  const hunk = patch.match(/^@@ -\d+(?:,\d+)? \+(\d+)/m);
+  return hunk ? Math.max(1, parseInt(hunk[1], 10)) : 1;
+}
+
+/**
+ * Make a comment in the format the analysis posts, for one of the uploaded
+ * files (deleted files have no lines left to comment on)
+ */
+function createMockComment(dataId: string, uploaded: any[], index: number): ReviewComment {
+  const files = uploaded.filter(f => f.status !== 'deleted');
+  const file = files.length > 0 ? files[index % files.length] : { filename: 'README.md' };
+  const severity = SEVERITY_LEVELS[index % SEVERITY_LEVELS.length];
+  const line = getFirstChangedLine(getFilePatch(file));
+  const title = `Mock issue ${index + 1} in ${file.filename}`;
+
+  const content = [
+    `**File**: ${file.filename}`,
+    `**Line_Start**: ${line}`,
+    `**Line_End**: ${line}`,
+    `**Severity**: ${severity}`,
+    `**Confidence**: high`,
+    `**Title**: ${title}`,
+    '',
+    `This comment was generated by the Beetle mock server (${severity} severity).`,
+    '',
+    '<details>',
+    '<summary>Prompt for AI</summary>',
+    '',
+    '```',
+    `Look at line ${line} of ${file.filename} and check the change made there.`,
+    '```',
+    '</details>'
+  ].join('\n');
+
+  return {
+    id: `${dataId}-c${index + 1}`,
+    file_path: file.filename,
+    line_start: line,
+    line_end: line,
+    severity,
+    confidence: 'high',
+    title,
+    content,
+    created_at: new Date().toISOString()
+  };
+}
+
+/**
+ * Read a request body as JSON (an empty body is an empty object)
+ */
+function readJsonBody(req: http.IncomingMessage): Promise<any> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_SIZE) {
+        reject(Object.assign(new Error('Payload too large'), { status: 413 }));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      const text = Buffer.concat(chunks).toString('utf-8');
+      try {
+        resolve(text ? JSON.parse(text) : {});
+      } catch {
+        reject(Object.assign(new Error('Invalid JSON body'), { status: 400 }));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Send a JSON response
+ */
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Start a local server that imitates the Beetle review API with a scripted
+ * analysis, so the CLI (and tools wrapping it) can run without the real
+ * service. Serves review uploads (single and batched), comments, status,
+ * stop and the event stream, plus whoami for `beetle auth login --with-token`.
+ * Any bearer token is accepted.
+ */
+export async function startMockServer(options: MockServerOptions = {}): Promise<MockServer> {
+  const scenario = options.scenario || 'trickle';
+  const failing = scenario === 'fail' || scenario === 'interrupt';
+  const commentCount = options.comments ?? (failing ? DEFAULT_FAILING_COMMENTS : DEFAULT_COMMENTS);
+  const interval = options.interval ?? DEFAULT_INTERVAL;
+  const latency = scenario === 'slow' ? options.latency ?? DEFAULT_LATENCY : 0;
+  const streamEnabled = options.stream !== false;
+
+  const reviews = new Map<string, ReviewState>();
+  const sessions = new Map<string, { payload: any; files: any[] }>();
+
+  const notify = (review: ReviewState) => review.listeners.forEach(listener => listener());
+
+  // Post the scripted comments one by one, then settle on the scenario's final status
+  const startAnalysis = (payload: any): ReviewState => {
+    const dataId = `mock-${crypto.randomBytes(4).toString('hex')}`;
+    const files: any[] = payload.changes?.files || [];
+    const review: ReviewState = { dataId, payload, comments: [], status: 'running', listeners: new Set() };
+    reviews.set(dataId, review);
+
+    const step = () => {
+      if (review.status !== 'running') return;
+      if (review.comments.length < commentCount) {
+        review.comments.push(createMockComment(dataId, files, review.comments.length));
+        review.timer = setTimeout(step, interval);
+      } else {
+        review.status = scenario === 'fail' ? 'failed' : scenario === 'interrupt' ? 'interrupted' : 'completed';
+      }
+      notify(review);
+    };
+    review.timer = setTimeout(step, interval);
+    return review;
+  };
+
+  const reviewResponse = (review: ReviewState) => ({
+    message: 'Review started',
+    extension_data_id: review.dataId,
+    comments: review.comments
+  });
+
+  // Send a review's events as Server-Sent Events, resuming after Last-Event-ID
+  const streamReview = (req: http.IncomingMessage, res: http.ServerResponse, review: ReviewState) => {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    });
+    res.write(`retry: ${DEFAULT_INTERVAL}\n\n`);
+
+    let sent = parseInt(String(req.headers['last-event-id'] || '0'), 10) || 0;
+    const flush = () => {
+      while (sent < review.comments.length) {
+        res.write(`id: ${sent + 1}\nevent: comment\ndata: ${JSON.stringify(review.comments[sent])}\n\n`);
+        sent++;
+      }
+      if (review.status !== 'running') {
+        res.write(`event: status\ndata: ${JSON.stringify({ analysis_status: review.status, data_id: review.dataId })}\n\n`);
+        res.end();
+      }
+    };
+
+    review.listeners.add(flush);
+    res.on('close', () => review.listeners.delete(flush));
+    flush();
+  };
+
+  const handle = async (req: http.IncomingMessage, res: http.ServerResponse): Promise<void> => {
+    const method = req.method || 'GET';
+    const pathname = new URL(req.url || '/', 'http://localhost').pathname;
+
+    if (latency > 0) await new Promise(resolve => setTimeout(resolve, latency));
+
+    if (scenario === 'unauthorized' || !/^Bearer \S+/.test(req.headers.authorization || '')) {
+      // Refreshing a token never works here either
+      return sendJson(res, 401, { message: 'Unauthorized' });
+    }
+
+    if (method === 'GET' && pathname === '/api/cli/whoami') {
+      return sendJson(res, 200, MOCK_ACCOUNT);
+    }
+
+    if (method === 'POST' && pathname === '/api/extension/review') {
+      return sendJson(res, 200, reviewResponse(startAnalysis(await readJsonBody(req))));
+    }
+
+    // Batched uploads: open a session, add files, then finalize
+    if (method === 'POST' && pathname === '/api/extension/review/sessions') {
+      const sessionId = `session-${crypto.randomBytes(4).toString('hex')}`;
+      sessions.set(sessionId, { payload: await readJsonBody(req), files: [] });
+      return sendJson(res, 200, { session_id: sessionId });
+    }
+
+    const sessionMatch = pathname.match(/^\/api\/extension\/review\/sessions\/([^/]+)\/(files|finalize)$/);
+    if (method === 'POST' && sessionMatch) {
+      const session = sessions.get(sessionMatch[1]);
+      if (!session) return sendJson(res, 404, { message: 'Upload session not found' });
+      const body = await readJsonBody(req);
+
+      if (sessionMatch[2] === 'files') {
+        session.files.push(...(body.files || []));
+        return sendJson(res, 200, { received: session.files.length });
+      }
+
+      sessions.delete(sessionMatch[1]);
+      const patches = new Map(session.files.map(f => [f.filename, getFilePatch(f)]));
+      const fullDiff = (body.full_diff_parts || [])
+        .map((part: any) => ('file' in part ? patches.get(part.file) || '' : part.text))
+        .join('');
+      const payload = {
+        ...session.payload,
+        changes: { ...session.payload.changes, files: session.files, fullDiff }
+      };
+      return sendJson(res, 200, reviewResponse(startAnalysis(payload)));
+    }
+
+    const reviewMatch = pathname.match(/^\/api\/extension\/(comments|status|stop|stream)\/([^/]+)$/);
+    const review = reviewMatch ? reviews.get(reviewMatch[2]) : undefined;
+    if (reviewMatch && !review) {
+      return sendJson(res, 404, { message: 'Review not found' });
+    }
+
+    if (review && method === 'GET' && reviewMatch![1] === 'comments') {
+      return sendJson(res, 200, { comments: review.comments });
+    }
+
+    if (review && method === 'GET' && reviewMatch![1] === 'status') {
+      return sendJson(res, 200, { analysis_status: review.status, data_id: review.dataId });
+    }
+
+    if (review && method === 'POST' && reviewMatch![1] === 'stop') {
+      clearTimeout(review.timer);
+      if (review.status === 'running') {
+        review.status = 'interrupted';
+        notify(review);
+      }
+      return sendJson(res, 200, { message: 'Analysis stopped' });
+    }
+
+    if (review && method === 'GET' && reviewMatch![1] === 'stream' && streamEnabled) {
+      return streamReview(req, res, review);
+    }
+
+    sendJson(res, 404, { message: 'Not found' });
+  };
+
+  const server = http.createServer((req, res) => {
+    res.on('finish', () => options.onRequest?.(req.method || 'GET', req.url || '/', res.statusCode));
+    handle(req, res).catch(error => {
+      if (!res.headersSent) sendJson(res, error.status || 500, { message: error.message || 'Internal error' });
+    });
+  });
+
+  const host = options.host || '127.0.0.1';
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = server.address();
+  const port = typeof address === 'object' && address ? address.port : options.port;
+  const urlHost = host.includes(':') ? `[${host}]` : host;
+
+  return {
+    url: `http://${urlHost}:${port}`,
+    reviews,
+    close: () => new Promise<void>(resolve => {
+      reviews.forEach(review => clearTimeout(review.timer));
+      server.closeAllConnections();
+      server.close(() => resolve());
+    })
+  };
+}
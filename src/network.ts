@@ -0,0 +1,113 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import tls from 'tls';
+import { Agent, EnvHttpProxyAgent, Dispatcher } from 'undici';
+import { getNetworkConfig } from './config.js';
+
+// Where a network setting came from
+export interface SettingSource<T> {
+  value: T;
+  source: string; // config key or environment variable
+}
+
+export interface NetworkSettings {
+  proxy: SettingSource<string> | null;
+  noProxy: SettingSource<string> | null;
+  caFiles: SettingSource<string>[];
+}
+
+let dispatcher: Dispatcher | null | undefined;
+
+/**
+ * Get the first environment variable that is set
+ */
+function fromEnv(...names: string[]): SettingSource<string> | null {
+  for (const name of names) {
+    const value = process.env[name]?.trim();
+    if (value) return { value, source: name };
+  }
+  return null;
+}
+
+/**
+ * Resolve a path from the config file (relative to the home directory, `~` allowed)
+ */
+function resolveConfigPath(file: string): string {
+  return path.resolve(os.homedir(), file.replace(/^~(?=$|[\\/])/, os.homedir()));
+}
+
+/**
+ * Work out the effective network settings. The environment wins over the
+ * `network` key of config.json: HTTPS_PROXY / HTTP_PROXY over `network.proxy`,
+ * NO_PROXY over `network.noProxy` and BEETLE_CA_FILE over `network.caFile`.
+ * NODE_EXTRA_CA_CERTS is added to either CA file.
+ */
+export function getNetworkSettings(): NetworkSettings {
+  const config = getNetworkConfig();
+  const configured = (value: unknown, key: string) =>
+    typeof value === 'string' && value.trim() ? { value: value.trim(), source: `network.${key} in config.json` } : null;
+
+  const configCaFile = configured(config.caFile, 'caFile');
+  const caFile = fromEnv('BEETLE_CA_FILE') ||
+    (configCaFile ? { ...configCaFile, value: resolveConfigPath(configCaFile.value) } : null);
+  const extraCerts = fromEnv('NODE_EXTRA_CA_CERTS');
+
+  return {
+    proxy: fromEnv('https_proxy', 'HTTPS_PROXY', 'http_proxy', 'HTTP_PROXY') || configured(config.proxy, 'proxy'),
+    noProxy: fromEnv('no_proxy', 'NO_PROXY') || configured(config.noProxy, 'noProxy'),
+    caFiles: [caFile, extraCerts].filter((f): f is SettingSource<string> => !!f)
+  };
+}
+
+/**
+ * Hide the password in a proxy URL for display
+ */
+export function redactProxyUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    if (parsed.password) parsed.password = '****';
+    return parsed.toString().replace(/\/$/, '');
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Get the dispatcher API requests go through, or null to use Node's defaults
+ * (no proxy and no extra certificates configured). Built once per process.
+ */
+export function getDispatcher(): Dispatcher | null {
+  if (dispatcher !== undefined) return dispatcher;
+
+  const settings = getNetworkSettings();
+  if (!settings.proxy && settings.caFiles.length === 0) {
+    dispatcher = null;
+    return dispatcher;
+  }
+
+  // Extra certificates are trusted alongside the built-in ones, not instead of them
+  let tlsOptions: { ca: string[] } | undefined;
+  if (settings.caFiles.length > 0) {
+    const extra = settings.caFiles.flatMap(({ value, source }) => {
+      try {
+        return [fs.readFileSync(value, 'utf-8')];
+      } catch (error: any) {
+        // Like Node, skip an unreadable NODE_EXTRA_CA_CERTS (it has already warned)
+        if (source === 'NODE_EXTRA_CA_CERTS') return [];
+        throw new Error(`Could not read the CA file from ${source} (${value}): ${error.message}`);
+      }
+    });
+    tlsOptions = { ca: [...tls.rootCertificates, ...extra] };
+  }
+
+  dispatcher = settings.proxy
+    ? new EnvHttpProxyAgent({
+      httpProxy: settings.proxy.value,
+      httpsProxy: settings.proxy.value,
+      noProxy: settings.noProxy?.value ?? '',
+      ...(tlsOptions ? { connect: tlsOptions, requestTls: tlsOptions, proxyTls: tlsOptions } : {})
+    })
+    : new Agent({ connect: tlsOptions });
+  return dispatcher;
+}
@@ -0,0 +1,79 @@
+import { gunzipSync, gzipSync } from 'zlib';
+
+export interface PayloadFileSize {
+  filename: string;
+  patchBytes: number;       // uncompressed
+  contentBytes: number;     // uncompressed
+  uploadedBytes: number;    // as sent (after per-field gzip + base64)
+  compressed: string[];     // fields over COMPRESSION_THRESHOLD, e.g. ['patch']
+}
+
+export interface PayloadSummary {
+  files: PayloadFileSize[];
+  rawBytes: number;         // whole payload with every field decoded
+  uploadBytes: number;      // whole payload as sent
+  gzipBytes: number;        // whole payload as sent, gzipped
+}
+
+/**
+ * Decode a base64 gzip field back to text
+ */
+function decompressContent(data: string): string {
+  return gunzipSync(Buffer.from(data, 'base64')).toString('utf-8');
+}
+
+/**
+ * Copy a review payload with its compressed fields decoded for reading
+ */
+export function decodePayload(payload: any): any {
+  return {
+    ...payload,
+    changes: {
+      ...payload.changes,
+      files: payload.changes.files.map((file: any) => {
+        const { patch_compressed, content_compressed, _compressed, ...rest } = file;
+        return {
+          ...rest,
+          ...(patch_compressed !== undefined ? { patch: decompressContent(patch_compressed) } : {}),
+          ...(content_compressed !== undefined ? { content: decompressContent(content_compressed) } : {}),
+          ...(_compressed ? { _compressed: [patch_compressed && 'patch', content_compressed && 'content'].filter(Boolean) } : {})
+        };
+      })
+    }
+  };
+}
+
+/**
+ * Break down the size of a review payload per file and in total
+ */
+export function summarizePayload(payload: any): PayloadSummary {
+  const decoded = decodePayload(payload);
+  const uploaded = JSON.stringify(payload);
+
+  const files = payload.changes.files.map((file: any, i: number): PayloadFileSize => {
+    const plain = decoded.changes.files[i];
+    return {
+      filename: file.filename,
+      patchBytes: Buffer.byteLength(plain.patch || '', 'utf-8'),
+      contentBytes: Buffer.byteLength(plain.content || '', 'utf-8'),
+      uploadedBytes: Buffer.byteLength(JSON.stringify(file), 'utf-8'),
+      compressed: plain._compressed || []
+    };
+  });
+
+  return {
+    files,
+    rawBytes: Buffer.byteLength(JSON.stringify(decoded), 'utf-8'),
+    uploadBytes: Buffer.byteLength(uploaded, 'utf-8'),
+    gzipBytes: gzipSync(uploaded).length
+  };
+}
+
+/**
+ * Format a byte count for display
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
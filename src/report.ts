@@ -0,0 +1,108 @@
+import { ReviewComment, AnalysisStatus } from './api.js';
+import {
+  parseCommentMetadata,
+  getCommentSeverity,
+  getCommentFingerprint,
+  SEVERITY_LEVELS,
+  Severity
+} from './comments.js';
+
+// Version of the JSON / JSONL output schema (bump on breaking changes)
+export const REPORT_SCHEMA_VERSION = 1;
+
+export type ReviewRunStatus = AnalysisStatus['analysis_status'] | 'timeout';
+
+export interface CommentRecord {
+  id: string;
+  file: string;
+  lines: { start: number; end: number };
+  severity: Severity;
+  confidence: string;
+  title: string;
+  description: string;
+  codeBlock: string;
+  aiPrompt: string;
+  fingerprint: string;
+  createdAt: string;
+}
+
+export interface ReviewSummary {
+  total: number;
+  bySeverity: Record<Severity, number>;
+}
+
+export interface JsonReport {
+  schemaVersion: number;
+  dataId: string | null;
+  status: ReviewRunStatus;
+  generatedAt: string;
+  summary: ReviewSummary;
+  comments: CommentRecord[];
+}
+
+export type ReviewEvent =
+  | { schemaVersion: number; type: 'review.started'; timestamp: string; dataId: string; files: string[] }
+  | { schemaVersion: number; type: 'status'; timestamp: string; dataId: string; status: ReviewRunStatus }
+  | { schemaVersion: number; type: 'comment'; timestamp: string; dataId: string; comment: CommentRecord }
+  | { schemaVersion: number; type: 'review.completed'; timestamp: string; dataId: string; status: ReviewRunStatus; summary: ReviewSummary }
+  | { schemaVersion: number; type: 'error'; timestamp: string; dataId: string | null; message: string };
+
+type EventBody<T> = T extends unknown ? Omit<T, 'schemaVersion' | 'timestamp'> : never;
+
+/**
+ * Convert a review comment into its machine-readable record
+ */
+export function buildCommentRecord(comment: ReviewComment): CommentRecord {
+  const { title, lineStart, lineEnd, description, codeBlock, aiPrompt } = parseCommentMetadata(comment.content);
+  const start = comment.line_start || lineStart;
+  return {
+    id: comment.id,
+    file: comment.file_path,
+    lines: {
+      start,
+      end: Math.max(comment.line_end || lineEnd, start)
+    },
+    severity: getCommentSeverity(comment),
+    confidence: comment.confidence,
+    title,
+    description,
+    codeBlock,
+    aiPrompt,
+    fingerprint: getCommentFingerprint(comment),
+    createdAt: comment.created_at
+  };
+}
+
+/**
+ * Count comments by severity
+ */
+export function buildSummary(comments: ReviewComment[]): ReviewSummary {
+  const bySeverity = Object.fromEntries(SEVERITY_LEVELS.map(s => [s, 0])) as Record<Severity, number>;
+  comments.forEach(c => bySeverity[getCommentSeverity(c)]++);
+  return { total: comments.length, bySeverity };
+}
+
+/**
+ * Build the final JSON document for a review
+ */
+export function buildJsonReport(dataId: string | null, status: ReviewRunStatus, comments: ReviewComment[]): JsonReport {
+  return {
+    schemaVersion: REPORT_SCHEMA_VERSION,
+    dataId,
+    status,
+    generatedAt: new Date().toISOString(),
+    summary: buildSummary(comments),
+    comments: comments.map(buildCommentRecord)
+  };
+}
+
+/**
+ * Build a JSONL event, stamping the schema version and timestamp
+ */
+export function buildEvent(body: EventBody<ReviewEvent>): ReviewEvent {
+  return {
+    schemaVersion: REPORT_SCHEMA_VERSION,
+    timestamp: new Date().toISOString(),
+    ...body
+  } as ReviewEvent;
+}
@@ -0,0 +1,149 @@
+import { ReviewComment } from './api.js';
+import { CLI_VERSION } from './config.js';
+import { ReviewRunStatus } from './report.js';
+import {
+  parseCommentMetadata,
+  getCommentSeverity,
+  getCommentFingerprint,
+  getSuggestedCode,
+  SEVERITY_LEVELS,
+  Severity
+} from './comments.js';
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const SARIF_VERSION = '2.1.0';
+
+// Key used in partialFingerprints (bump the suffix if the algorithm changes)
+const FINGERPRINT_KEY = 'beetleFingerprint/v1';
+
+type SarifLevel = 'error' | 'warning' | 'note';
+
+/**
+ * Map Beetle severity to a SARIF result level
+ */
+function getSarifLevel(severity: Severity): SarifLevel {
+  switch (severity) {
+    case 'critical':
+    case 'high':
+      return 'error';
+    case 'medium':
+      return 'warning';
+    default:
+      return 'note';
+  }
+}
+
+/**
+ * Get the SARIF rule id for a severity
+ */
+function getRuleId(severity: Severity): string {
+  return `beetle/${severity}`;
+}
+
+/**
+ * Build the SARIF region for a comment (undefined when no line info)
+ */
+function buildRegion(comment: ReviewComment): { startLine: number; endLine: number } | undefined {
+  if (!comment.line_start || comment.line_start < 1) return undefined;
+  return {
+    startLine: comment.line_start,
+    endLine: Math.max(comment.line_end, comment.line_start)
+  };
+}
+
+/**
+ * Convert a single review comment into a SARIF result
+ */
+function buildResult(comment: ReviewComment): any {
+  const severity = getCommentSeverity(comment);
+  const { title, description, codeBlock } = parseCommentMetadata(comment.content);
+  const region = buildRegion(comment);
+
+  const artifactLocation = { uri: comment.file_path, uriBaseId: '%SRCROOT%' };
+
+  const result: any = {
+    ruleId: getRuleId(severity),
+    ruleIndex: SEVERITY_LEVELS.indexOf(severity),
+    level: getSarifLevel(severity),
+    message: {
+      text: description ? `${title}\n\n${description}` : title
+    },
+    locations: [{
+      physicalLocation: {
+        artifactLocation,
+        ...(region ? { region } : {})
+      }
+    }],
+    partialFingerprints: {
+      [FINGERPRINT_KEY]: getCommentFingerprint(comment)
+    },
+    properties: {
+      severity,
+      confidence: comment.confidence,
+      title
+    }
+  };
+
+  // Suggested fix (only when we know which lines it replaces). The region
+  // covers whole lines with their terminators, so the text is used as-is.
+  const suggestion = codeBlock ? getSuggestedCode(codeBlock, true) : null;
+  if (suggestion !== null && region) {
+    result.fixes = [{
+      description: { text: `Suggested fix: ${title}` },
+      artifactChanges: [{
+        artifactLocation,
+        replacements: [{
+          deletedRegion: region,
+          insertedContent: { text: suggestion }
+        }]
+      }]
+    }];
+  }
+
+  return result;
+}
+
+/**
+ * Describe how the analysis ended (an unfinished run keeps the comments it got)
+ */
+function buildInvocation(status: ReviewRunStatus): any {
+  const invocation: any = {
+    executionSuccessful: status === 'completed',
+    properties: { status }
+  };
+  if (status !== 'completed') {
+    invocation.toolExecutionNotifications = [{
+      level: 'error',
+      message: { text: status === 'timeout' ? 'Analysis timed out; results are partial' : `Analysis ${status}; results may be partial` }
+    }];
+  }
+  return invocation;
+}
+
+/**
+ * Build a SARIF 2.1.0 log from review comments
+ */
+export function buildSarifLog(comments: ReviewComment[], status: ReviewRunStatus = 'completed'): any {
+  return {
+    $schema: SARIF_SCHEMA,
+    version: SARIF_VERSION,
+    runs: [{
+      tool: {
+        driver: {
+          name: 'Beetle',
+          informationUri: 'https://beetleai.dev',
+          version: CLI_VERSION,
+          rules: SEVERITY_LEVELS.map(severity => ({
+            id: getRuleId(severity),
+            name: `Beetle${severity.charAt(0).toUpperCase()}${severity.slice(1)}Issue`,
+            shortDescription: { text: `Beetle ${severity} severity issue` },
+            defaultConfiguration: { level: getSarifLevel(severity) }
+          }))
+        }
+      },
+      invocations: [buildInvocation(status)],
+      columnKind: 'utf16CodeUnits',
+      results: comments.map(buildResult)
+    }]
+  };
+}
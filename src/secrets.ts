@@ -0,0 +1,123 @@
+export interface SecretPattern {
+  name: string;
+  regex: RegExp; // must be global
+}
+
+export interface SecretFinding {
+  file: string;
+  name: string;
+  line: number | null; // in the file's content (null when only found in the diff)
+}
+
+// Built-in detectors for well-known credential formats
+const BUILT_IN_PATTERNS: SecretPattern[] = [
+  { name: 'private key', regex: /-----BEGIN (?:[A-Z]+ )*PRIVATE KEY(?: BLOCK)?-----[\s\S]*?(?:-----END (?:[A-Z]+ )*PRIVATE KEY(?: BLOCK)?-----|$)/g },
+  { name: 'AWS access key', regex: /\b(?:AKIA|ASIA|AGPA|AIDA|AROA)[0-9A-Z]{16}\b/g },
+  { name: 'AWS secret key', regex: /(?<=aws_?secret_?(?:access_?)?key["']?\s*[:=]\s*["']?)[A-Za-z0-9/+=]{40}/gi },
+  { name: 'JWT', regex: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g },
+  { name: 'GitHub token', regex: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{40,})\b/g },
+  { name: 'Slack token', regex: /\bxox[abposr]-[A-Za-z0-9-]{10,}\b/g },
+  { name: 'Stripe key', regex: /\b[sr]k_(?:live|test)_[A-Za-z0-9]{20,}\b/g }
+];
+
+// Candidates for the entropy check: long runs of base64/hex-like characters
+const TOKEN_CANDIDATE = /[A-Za-z0-9+/_=-]{24,}/g;
+
+// Shannon entropy (bits per character) above which a token looks random
+const ENTROPY_THRESHOLD = 4.5;
+
+/**
+ * Shannon entropy of a string in bits per character
+ */
+function getEntropy(text: string): number {
+  const counts = new Map<string, number>();
+  for (const char of text) counts.set(char, (counts.get(char) || 0) + 1);
+  let entropy = 0;
+  counts.forEach(count => {
+    const p = count / text.length;
+    entropy -= p * Math.log2(p);
+  });
+  return entropy;
+}
+
+/**
+ * Check whether a token looks like a random secret rather than an identifier or path
+ */
+function isHighEntropy(token: string): boolean {
+  return /\d/.test(token) && /[a-z]/.test(token) && /[A-Z]/.test(token) && getEntropy(token) >= ENTROPY_THRESHOLD;
+}
+
+/**
+ * Get the secret patterns to scan with (built-in plus custom regexes)
+ * @throws Error if a custom pattern is not a valid regular expression
+ */
+export function getSecretPatterns(custom: string[] = []): SecretPattern[] {
+  return [
+    ...BUILT_IN_PATTERNS,
+    ...custom.map(source => {
+      try {
+        return { name: 'custom pattern', regex: new RegExp(source, 'g') };
+      } catch {
+        throw new Error(`Invalid secret pattern: ${source}`);
+      }
+    })
+  ];
+}
+
+/**
+ * Find likely secrets in text
+ * @returns the detector name and offset of each match
+ */
+function findMatches(text: string, patterns: SecretPattern[]): { name: string; start: number; end: number }[] {
+  const matches: { name: string; start: number; end: number }[] = [];
+
+  patterns.forEach(({ name, regex }) => {
+    for (const match of text.matchAll(regex)) {
+      if (match[0]) matches.push({ name, start: match.index as number, end: (match.index as number) + match[0].length });
+    }
+  });
+  for (const match of text.matchAll(TOKEN_CANDIDATE)) {
+    const start = match.index as number;
+    const end = start + match[0].length;
+    // Skip tokens already covered by a specific detector
+    if (matches.some(m => start < m.end && end > m.start)) continue;
+    if (isHighEntropy(match[0])) matches.push({ name: 'high-entropy string', start, end });
+  }
+
+  return matches.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Replace likely secrets with a [REDACTED:<kind>] marker
+ */
+export function redactSecrets(text: string, patterns: SecretPattern[]): string {
+  const matches = findMatches(text, patterns);
+  if (matches.length === 0) return text;
+
+  let result = '';
+  let pos = 0;
+  matches.forEach(({ name, start, end }) => {
+    if (start < pos) return; // overlaps the previous match
+    result += text.substring(pos, start) + `[REDACTED:${name}]`;
+    pos = end;
+  });
+  return result + text.substring(pos);
+}
+
+/**
+ * Scan a file's content and diff for likely secrets
+ */
+export function scanFile(file: string, content: string, patch: string, patterns: SecretPattern[]): SecretFinding[] {
+  const findings: SecretFinding[] = findMatches(content, patterns).map(m => ({
+    file,
+    name: m.name,
+    line: content.substring(0, m.start).split('\n').length
+  }));
+
+  // Secrets only in the diff (e.g. on removed lines) are uploaded too
+  findMatches(patch, patterns).forEach(m => {
+    if (!findings.some(f => f.name === m.name)) findings.push({ file, name: m.name, line: null });
+  });
+
+  return findings;
+}
@@ -0,0 +1,334 @@
+import fs from 'fs';
+import path from 'path';
+import { getRepoPath } from './guards.js';
+import { getUserSettings, ReviewSettings } from './config.js';
+import { ChangedFile, GitChanges, ReviewTarget, summarizeChanges, getFileSize } from './git.js';
+
+// Project config files, in order of preference
+const PROJECT_CONFIG_FILES = ['.beetle.json', '.beetlerc'];
+
+// Per-repository ignore file (gitignore syntax)
+const IGNORE_FILE = '.beetleignore';
+
+// Published schema for config files (shipped in the package next to dist/)
+const SCHEMA_PATH = new URL('../schema/beetle.schema.json', import.meta.url);
+
+// The subset of JSON Schema used by schema/beetle.schema.json
+interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  enum?: unknown[];
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean;
+  minimum?: number;
+  minLength?: number;
+  format?: 'regex';
+}
+
+let schema: JsonSchema | null = null;
+
+/**
+ * Load the config schema
+ */
+function getSchema(): JsonSchema {
+  if (!schema) {
+    schema = JSON.parse(fs.readFileSync(SCHEMA_PATH, 'utf-8')) as JsonSchema;
+  }
+  return schema;
+}
+
+/**
+ * Check a value against a schema
+ * @returns one message per problem (empty when valid)
+ */
+function checkSchema(value: unknown, rule: JsonSchema, at: string): string[] {
+  const isType = {
+    object: () => typeof value === 'object' && value !== null && !Array.isArray(value),
+    array: () => Array.isArray(value),
+    string: () => typeof value === 'string',
+    integer: () => Number.isInteger(value),
+    number: () => typeof value === 'number' && Number.isFinite(value),
+    boolean: () => typeof value === 'boolean'
+  };
+
+  if (rule.type && !isType[rule.type]()) {
+    return [`${at} must be ${/^[aeiou]/.test(rule.type) ? 'an' : 'a'} ${rule.type}`];
+  }
+  if (rule.enum && !rule.enum.includes(value)) {
+    return [`${at} must be one of: ${rule.enum.join(', ')}`];
+  }
+  if (rule.minimum !== undefined && (value as number) < rule.minimum) {
+    return [`${at} must be at least ${rule.minimum}`];
+  }
+  if (rule.minLength !== undefined && (value as string).length < rule.minLength) {
+    return [`${at} must not be empty`];
+  }
+  if (rule.format === 'regex') {
+    try {
+      new RegExp(value as string, 'g');
+    } catch (error) {
+      return [`${at} must be a valid regular expression (${error instanceof Error ? error.message : 'invalid'})`];
+    }
+  }
+
+  const errors: string[] = [];
+  if (rule.items && Array.isArray(value)) {
+    value.forEach((item, i) => errors.push(...checkSchema(item, rule.items as JsonSchema, `${at}[${i}]`)));
+  }
+  if (rule.properties && isType.object()) {
+    Object.entries(value as Record<string, unknown>).forEach(([key, child]) => {
+      const childRule = rule.properties?.[key];
+      if (childRule) {
+        errors.push(...checkSchema(child, childRule, at ? `${at}.${key}` : key));
+      } else if (rule.additionalProperties === false) {
+        errors.push(`unknown setting "${at ? `${at}.${key}` : key}"`);
+      }
+    });
+  }
+  return errors;
+}
+
+/**
+ * Validate settings against the published schema
+ * @throws Error listing every problem, labelled with where the settings came from
+ */
+export function validateSettings(value: unknown, source: string): ReviewSettings {
+  const errors = checkSchema(value, getSchema(), '');
+  if (errors.length > 0) {
+    throw new Error(`Invalid settings in ${source}:\n${errors.map(e => `  - ${e || 'settings must be an object'}`).join('\n')}`);
+  }
+  const { $schema, ...settings } = value as ReviewSettings & { $schema?: string };
+  return settings;
+}
+
+/**
+ * Find the project config file at the repository root
+ */
+export function findProjectConfig(repoPath: string = getRepoPath()): string | null {
+  for (const name of PROJECT_CONFIG_FILES) {
+    const file = path.join(repoPath, name);
+    if (fs.existsSync(file)) return file;
+  }
+  return null;
+}
+
+/**
+ * Load and validate the project config (.beetle.json or .beetlerc)
+ */
+function loadProjectSettings(): { file: string | null; settings: ReviewSettings } {
+  const file = findProjectConfig();
+  if (!file) return { file, settings: {} };
+
+  let content: unknown;
+  try {
+    content = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not parse ${file}: ${error instanceof Error ? error.message : 'invalid JSON'}`);
+  }
+  return { file, settings: validateSettings(content, file) };
+}
+
+/**
+ * Read settings from BEETLE_* environment variables
+ */
+function getEnvSettings(): ReviewSettings {
+  const env = process.env;
+  const settings: Record<string, unknown> = {
+    baseBranch: env.BEETLE_BASE_BRANCH || undefined,
+    failOn: env.BEETLE_FAIL_ON || undefined,
+    format: env.BEETLE_FORMAT || undefined,
+    maxFileSize: env.BEETLE_MAX_FILE_SIZE ? Number(env.BEETLE_MAX_FILE_SIZE) : undefined
+  };
+  Object.keys(settings).forEach(key => settings[key] === undefined && delete settings[key]);
+  return validateSettings(settings, 'environment variables');
+}
+
+export interface ResolvedSettings extends ReviewSettings {
+  warnings: string[]; // worth showing before anything is uploaded
+}
+
+/**
+ * Resolve review settings. Later sources win: user config, project config,
+ * environment, then flags. Ignore patterns from every source are combined.
+ * A committed `format` only applies when output is not a terminal, so a
+ * repository can't turn an interactive review into a headless one.
+ */
+export function resolveReviewSettings(
+  flags: ReviewSettings = {},
+  interactive = !!process.stdout.isTTY
+): ResolvedSettings {
+  const userSettings = getUserSettings();
+  const project = loadProjectSettings();
+  const { format, ...projectSettings } = project.settings;
+  const layers = [
+    userSettings === undefined ? {} : validateSettings(userSettings, '~/.beetle/config.json (settings)'),
+    interactive ? projectSettings : project.settings,
+    getEnvSettings(),
+    flags
+  ];
+
+  // Project patterns run on every changed file, so say where they came from
+  const warnings: string[] = [];
+  const projectPatterns = project.settings.secretPatterns?.length || 0;
+  if (projectPatterns > 0) {
+    warnings.push(
+      `Using ${projectPatterns} secret pattern${projectPatterns === 1 ? '' : 's'} from ${path.basename(project.file as string)}. ` +
+      'Review them if you do not trust this repository.'
+    );
+  }
+
+  const resolved: ResolvedSettings = { warnings };
+  layers.forEach(layer => {
+    Object.entries(layer).forEach(([key, value]) => {
+      if (value !== undefined) (resolved as unknown as Record<string, unknown>)[key] = value;
+    });
+  });
+  resolved.ignore = layers.flatMap(layer => layer.ignore || []);
+  return resolved;
+}
+
+/**
+ * Convert a glob to a regular expression. Patterns without a slash match
+ * at any depth; `**` spans directories; a match on a directory covers
+ * everything inside it.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const trimmed = pattern.replace(/\/+$/, '');
+  const anchored = trimmed.includes('/');
+  const body = trimmed.replace(/^\//, '');
+
+  let source = '';
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char === '*' && body[i + 1] === '*') {
+      // "**/" matches zero or more directories
+      if (body[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`${anchored ? '^' : '(?:^|/)'}${source}(?:/.*)?$`);
+}
+
+// Excluded unless re-included with "!pattern" in .beetleignore:
+// lockfiles, build output, minified bundles, vendored code and test snapshots
+export const DEFAULT_EXCLUDES = [
+  'package-lock.json', 'yarn.lock', 'pnpm-lock.yaml', 'bun.lockb', 'Cargo.lock',
+  'Gemfile.lock', 'poetry.lock', 'Pipfile.lock', 'composer.lock', 'go.sum',
+  'dist/', '*.min.js', '*.min.css', '*.map',
+  'vendor/', 'node_modules/', 'third_party/',
+  '__snapshots__/', '*.snap'
+];
+
+export interface IgnoreRule {
+  pattern: string;
+  negate: boolean;  // "!pattern" re-includes files
+  source: string;   // where the rule came from, for display
+  regex: RegExp;
+}
+
+export interface ExcludedFile {
+  file: ChangedFile;
+  reason: 'ignored' | 'binary' | 'size';
+  detail: string;
+}
+
+/**
+ * Build an ignore rule from one gitignore-style pattern
+ */
+function toIgnoreRule(line: string, source: string): IgnoreRule | null {
+  let pattern = line.trim();
+  if (!pattern || pattern.startsWith('#')) return null;
+
+  const negate = pattern.startsWith('!');
+  if (negate) pattern = pattern.substring(1);
+  // "\#" and "\!" escape a literal leading character
+  pattern = pattern.replace(/^\\([#!])/, '$1');
+  if (!pattern) return null;
+
+  return { pattern, negate, source, regex: globToRegExp(pattern) };
+}
+
+/**
+ * Parse a .beetleignore file (gitignore syntax)
+ */
+export function parseIgnoreFile(content: string, source: string): IgnoreRule[] {
+  return content.split(/\r?\n/)
+    .map(line => toIgnoreRule(line, source))
+    .filter((rule): rule is IgnoreRule => rule !== null);
+}
+
+/**
+ * Collect ignore rules: built-in excludes, then settings, then .beetleignore
+ * (later rules win, so .beetleignore can re-include a default)
+ */
+export function loadIgnoreRules(settings: ReviewSettings, repoPath: string = getRepoPath()): IgnoreRule[] {
+  const rules = [
+    ...DEFAULT_EXCLUDES.map(p => toIgnoreRule(p, 'built-in')),
+    ...(settings.ignore || []).map(p => toIgnoreRule(p, 'settings'))
+  ].filter((rule): rule is IgnoreRule => rule !== null);
+
+  const ignoreFile = path.join(repoPath, IGNORE_FILE);
+  if (fs.existsSync(ignoreFile)) {
+    rules.push(...parseIgnoreFile(fs.readFileSync(ignoreFile, 'utf-8'), IGNORE_FILE));
+  }
+  return rules;
+}
+
+/**
+ * Find the rule that excludes a path, if any (the last matching rule decides)
+ */
+export function matchIgnoreRules(filePath: string, rules: IgnoreRule[]): IgnoreRule | null {
+  for (let i = rules.length - 1; i >= 0; i--) {
+    if (rules[i].regex.test(filePath)) {
+      return rules[i].negate ? null : rules[i];
+    }
+  }
+  return null;
+}
+
+/**
+ * Drop ignored, binary and oversized files from the changes to review
+ */
+export function applyReviewSettings(
+  changes: GitChanges,
+  settings: ReviewSettings,
+  target?: ReviewTarget
+): { changes: GitChanges; excluded: ExcludedFile[] } {
+  const rules = loadIgnoreRules(settings);
+  const excluded: ExcludedFile[] = [];
+
+  const files = changes.files.filter(file => {
+    const rule = matchIgnoreRules(file.path, rules);
+    if (rule) {
+      excluded.push({ file, reason: 'ignored', detail: `${rule.pattern} (${rule.source})` });
+      return false;
+    }
+    if (file.binary) {
+      excluded.push({ file, reason: 'binary', detail: 'binary file' });
+      return false;
+    }
+    if (settings.maxFileSize && file.status !== 'deleted') {
+      const size = getFileSize(file.path, target);
+      if (size > settings.maxFileSize) {
+        excluded.push({ file, reason: 'size', detail: `${size} bytes > ${settings.maxFileSize}` });
+        return false;
+      }
+    }
+    return true;
+  });
+
+  if (excluded.length === 0) return { changes, excluded };
+  return { changes: summarizeChanges(files), excluded };
+}
@@ -0,0 +1,37 @@
+/**
+ * Decode JWT token to extract user details (without verification)
+ */
+export function decodeJwt(token: string): Record<string, unknown> | null {
+  try {
+    const parts = token.split('.');
+    if (parts.length !== 3) return null;
+    const payload = Buffer.from(parts[1], 'base64').toString('utf-8');
+    return JSON.parse(payload);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get when a token expires (from its `exp` claim), or null if it doesn't say
+ */
+export function getTokenExpiry(token: string): Date | null {
+  const exp = decodeJwt(token)?.exp;
+  return typeof exp === 'number' ? new Date(exp * 1000) : null;
+}
+
+/**
+ * Check a token is well-formed and not expired
+ * @throws Error describing what is wrong with the token
+ */
+export function validateToken(token: string): Record<string, unknown> {
+  const payload = decodeJwt(token);
+  if (!payload) {
+    throw new Error('Token is not a valid JWT');
+  }
+  const expiry = getTokenExpiry(token);
+  if (expiry && expiry.getTime() <= Date.now()) {
+    throw new Error(`Token expired on ${expiry.toISOString()}`);
+  }
+  return payload;
+}
@@ -0,0 +1,88 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { ensureConfigDir } from './config.js';
+import { getRepoPath } from './guards.js';
+
+// How long a snoozed comment stays hidden
+const SNOOZE_DURATION = 7 * 24 * 60 * 60 * 1000;
+
+export type TriageStatus = 'resolved' | 'dismissed' | 'snoozed';
+
+export interface TriageEntry {
+  status: TriageStatus;
+  updatedAt: string;
+  snoozedUntil?: string;
+  file: string;
+  title: string;
+}
+
+interface TriageStore {
+  version: 1;
+  repoPath: string;
+  comments: Record<string, TriageEntry>; // keyed by comment fingerprint
+}
+
+/**
+ * Get the triage file for a repository (~/.beetle/state/<hash>.json)
+ */
+function getTriagePath(repoPath: string): string {
+  const key = crypto.createHash('sha256').update(repoPath).digest('hex').substring(0, 16);
+  return path.join(ensureConfigDir('state'), `${key}.json`);
+}
+
+/**
+ * Load triage entries for a repository
+ */
+export function loadTriage(repoPath: string = getRepoPath()): Record<string, TriageEntry> {
+  try {
+    const file = getTriagePath(repoPath);
+    if (fs.existsSync(file)) {
+      const store: TriageStore = JSON.parse(fs.readFileSync(file, 'utf-8'));
+      return store.comments || {};
+    }
+  } catch {
+    // Return empty state on error
+  }
+  return {};
+}
+
+/**
+ * Set (or clear, with null) the triage status of a comment
+ * @returns the updated entries
+ */
+export function setTriageStatus(
+  fingerprint: string,
+  status: TriageStatus | null,
+  details: { file: string; title: string },
+  repoPath: string = getRepoPath()
+): Record<string, TriageEntry> {
+  const comments = loadTriage(repoPath);
+
+  if (status) {
+    const now = Date.now();
+    comments[fingerprint] = {
+      status,
+      updatedAt: new Date(now).toISOString(),
+      ...(status === 'snoozed' ? { snoozedUntil: new Date(now + SNOOZE_DURATION).toISOString() } : {}),
+      ...details
+    };
+  } else {
+    delete comments[fingerprint];
+  }
+
+  const store: TriageStore = { version: 1, repoPath, comments };
+  fs.writeFileSync(getTriagePath(repoPath), JSON.stringify(store, null, 2), 'utf-8');
+  return comments;
+}
+
+/**
+ * Get the effective status of an entry (expired snoozes count as open)
+ */
+export function getActiveStatus(entry: TriageEntry | undefined): TriageStatus | null {
+  if (!entry) return null;
+  if (entry.status === 'snoozed' && entry.snoozedUntil && Date.parse(entry.snoozedUntil) <= Date.now()) {
+    return null;
+  }
+  return entry.status;
+}
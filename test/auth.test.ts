@@ -0,0 +1,154 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import crypto from 'crypto';
+import {
+  findAvailablePort,
+  createBrowserLogin,
+  waitForAuthCallback,
+  waitForDeviceApproval
+} from '../src/commands/auth.js';
+import { exchangeAuthCode } from '../src/api.js';
+
+// Codes issued by the stub sign-in page, with the PKCE challenge they were issued for
+const issuedCodes = new Map<string, { challenge: string; redirectUri: string }>();
+// Scripted answers to device token polls, by device code
+const deviceAnswers = new Map<string, string[]>();
+const devicePolls: number[] = [];
+
+/**
+ * Stub of the token endpoints: verifies PKCE like the real server
+ */
+function handleApi(req: http.IncomingMessage, res: http.ServerResponse, body: any): void {
+  const send = (status: number, data: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(data));
+  };
+
+  if (req.url === '/api/cli/token') {
+    const issued = issuedCodes.get(body.code);
+    const challenge = crypto.createHash('sha256').update(String(body.code_verifier)).digest('base64url');
+    if (!issued || issued.challenge !== challenge || issued.redirectUri !== body.redirect_uri) {
+      return send(400, { error: 'invalid_grant' });
+    }
+    issuedCodes.delete(body.code);
+    return send(200, { access_token: 'access-token', refresh_token: 'refresh-token' });
+  }
+
+  if (req.url === '/api/cli/device/token') {
+    devicePolls.push(Date.now());
+    const answer = deviceAnswers.get(body.device_code)?.shift() || 'authorization_pending';
+    if (answer === 'approved') return send(200, { access_token: 'device-token' });
+    return send(400, { error: answer });
+  }
+
+  send(404, { error: 'not_found' });
+}
+
+/**
+ * Open a URL like a browser would, retrying until the callback server listens
+ */
+async function browse(url: string): Promise<number> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const response = await fetch(url);
+      await response.text();
+      return response.status;
+    } catch (error) {
+      if (attempt >= 20) throw error;
+      await new Promise(resolve => setTimeout(resolve, 25));
+    }
+  }
+}
+
+let api: http.Server;
+
+before(async () => {
+  api = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => handleApi(req, res, JSON.parse(Buffer.concat(chunks).toString() || '{}')));
+  });
+  await new Promise<void>(resolve => api.listen(0, '127.0.0.1', resolve));
+  const address = api.address() as { port: number };
+  process.env.BEETLE_API_URL = `http://127.0.0.1:${address.port}`;
+  process.env.BEETLE_WEB_URL = 'http://sign-in.invalid';
+});
+
+after(() => {
+  api.close();
+});
+
+describe('browser login', () => {
+  it('only accepts the callback carrying its state, then exchanges the code with the PKCE verifier', async () => {
+    const port = await findAvailablePort();
+    const login = createBrowserLogin(port);
+    const params = new URL(login.authUrl).searchParams;
+
+    assert.equal(params.get('code_challenge_method'), 'S256');
+    assert.equal(params.get('state'), login.state);
+    assert.ok(!login.authUrl.includes(login.codeVerifier));
+    issuedCodes.set('code-1', { challenge: params.get('code_challenge')!, redirectUri: params.get('redirect_uri')! });
+
+    const waiting = waitForAuthCallback(port, login.state, 5000);
+    assert.equal(await browse(`${login.redirectUri}?code=forged&state=other`), 400);
+    assert.equal(await browse(`${login.redirectUri}?code=forged`), 400);
+    assert.equal(await browse(`${login.redirectUri}?code=code-1&state=${login.state}`), 200);
+    assert.equal(await waiting, 'code-1');
+
+    assert.deepEqual(
+      await exchangeAuthCode('code-1', login.codeVerifier, login.redirectUri),
+      { token: 'access-token', refreshToken: 'refresh-token' }
+    );
+  });
+
+  it('fails the exchange without the matching verifier', async () => {
+    const login = createBrowserLogin(await findAvailablePort());
+    const challenge = new URL(login.authUrl).searchParams.get('code_challenge')!;
+    issuedCodes.set('code-2', { challenge, redirectUri: login.redirectUri });
+
+    await assert.rejects(
+      exchangeAuthCode('code-2', createBrowserLogin(1).codeVerifier, login.redirectUri),
+      /Failed to complete login: 400 - invalid_grant/
+    );
+  });
+
+  it('reports an error sent back by the sign-in page', async () => {
+    const port = await findAvailablePort();
+    const login = createBrowserLogin(port);
+    const waiting = waitForAuthCallback(port, login.state, 5000);
+    const failed = assert.rejects(waiting, /access_denied/);
+
+    assert.equal(await browse(`${login.redirectUri}?error=access_denied&state=${login.state}`), 200);
+    await failed;
+  });
+
+  it('times out when the browser never calls back', async () => {
+    const port = await findAvailablePort();
+    await assert.rejects(waitForAuthCallback(port, 'state', 50), /Authentication timed out/);
+  });
+});
+
+describe('device login', () => {
+  it('keeps polling while pending and backs off on slow_down', async () => {
+    deviceAnswers.set('device-1', ['authorization_pending', 'slow_down', 'approved']);
+    devicePolls.length = 0;
+
+    const login = await waitForDeviceApproval('device-1', 60, 0.01);
+
+    assert.deepEqual(login, { token: 'device-token', refreshToken: undefined });
+    assert.equal(devicePolls.length, 3);
+    // slow_down adds five seconds to the interval (RFC 8628)
+    assert.ok(devicePolls[2] - devicePolls[1] >= 5000);
+  });
+
+  it('stops when the server says the code expired', async () => {
+    deviceAnswers.set('device-2', ['authorization_pending', 'expired_token']);
+    await assert.rejects(waitForDeviceApproval('device-2', 60, 0.01), /login code expired/);
+  });
+
+  it('gives up once the code expires locally', async () => {
+    deviceAnswers.set('device-3', []);
+    await assert.rejects(waitForDeviceApproval('device-3', 0.1, 0.02), /login code expired/);
+  });
+});
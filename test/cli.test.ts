@@ -0,0 +1,95 @@
+import { describe, it, before, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { spawn } from 'child_process';
+import { fileURLToPath } from 'url';
+import { startMockServer, MockServer, MockServerOptions } from '../src/mock-server.js';
+import { JsonReport } from '../src/report.js';
+import { createRepo, numberedLines, TestRepo } from './helpers.js';
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const TSX = path.join(ROOT, 'node_modules', '.bin', 'tsx');
+const CLI = path.join(ROOT, 'src', 'index.ts');
+
+/**
+ * Run `beetle review` headless against the mock server
+ * @returns the exit code and stderr
+ */
+function runReview(repo: TestRepo, server: MockServer, args: string[]): Promise<{ code: number | null; stderr: string }> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(TSX, [CLI, 'review', '--ci', ...args], {
+      cwd: repo.dir,
+      env: { ...process.env, BEETLE_TOKEN: 'test-token', BEETLE_API_URL: server.url, NO_COLOR: '1' },
+      stdio: ['ignore', 'ignore', 'pipe']
+    });
+    let stderr = '';
+    child.stderr.on('data', chunk => (stderr += chunk));
+    child.on('error', reject);
+    child.on('close', code => resolve({ code, stderr }));
+  });
+}
+
+describe('beetle review --ci exit codes', () => {
+  let repo: TestRepo;
+  let server: MockServer | undefined;
+
+  const start = async (options: MockServerOptions) => {
+    server = await startMockServer({ interval: 10, ...options });
+    return server;
+  };
+
+  before(() => {
+    repo = createRepo();
+    repo.write('app.txt', numberedLines(5));
+    repo.write('old.txt', numberedLines(3));
+    repo.git('add', '-A');
+    repo.git('commit', '-q', '-m', 'initial');
+    repo.write('app.txt', numberedLines(6));
+    repo.git('rm', '-q', 'old.txt');
+  });
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  it('exits 0 when the analysis completes, with comments on lines that exist', async () => {
+    const output = path.join(repo.dir, '..', `${path.basename(repo.dir)}-report.json`);
+    const { code } = await runReview(repo, await start({ scenario: 'trickle', comments: 4 }), ['--format', 'json', '--output', output]);
+    const report: JsonReport = JSON.parse(fs.readFileSync(output, 'utf-8'));
+
+    assert.equal(code, 0);
+    assert.equal(report.status, 'completed');
+    assert.equal(report.comments.length, 4);
+    // old.txt was deleted, so there is nothing in it to comment on
+    report.comments.forEach(comment => {
+      assert.equal(comment.file, 'app.txt');
+      assert.ok(comment.lines.start >= 1);
+    });
+  });
+
+  it('exits 1 when comments meet --fail-on', async () => {
+    const { code, stderr } = await runReview(repo, await start({ scenario: 'trickle', comments: 4 }), ['--fail-on', 'low']);
+
+    assert.equal(code, 1, stderr);
+  });
+
+  it('exits 2 when the analysis fails', async () => {
+    const { code, stderr } = await runReview(repo, await start({ scenario: 'fail' }), []);
+
+    assert.equal(code, 2, stderr);
+  });
+
+  it('exits 2 when the token is rejected', async () => {
+    const { code, stderr } = await runReview(repo, await start({ scenario: 'unauthorized' }), []);
+
+    assert.equal(code, 2, stderr);
+  });
+
+  it('exits 3 when --timeout expires', async () => {
+    const { code, stderr } = await runReview(repo, await start({ scenario: 'slow', latency: 1500 }), ['--timeout', '1']);
+
+    assert.equal(code, 3, stderr);
+  });
+});
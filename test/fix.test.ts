@@ -0,0 +1,125 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { buildFixPatch, applyFixPatch, captureSnippets, snapshotFiles, hashContent } from '../src/fix.js';
+import { getChangedFiles, resolveReviewTarget } from '../src/git.js';
+import { saveReview, findStoredComment } from '../src/history.js';
+import { ReviewComment } from '../src/api.js';
+import { createRepo, numberedLines, TestRepo } from './helpers.js';
+
+const ORIGINAL = numberedLines(6);
+
+/**
+ * A comment on lines 3-4 of app.txt suggesting a one-line replacement
+ */
+function createComment(): ReviewComment {
+  return {
+    id: 'c1',
+    file_path: 'app.txt',
+    line_start: 3,
+    line_end: 4,
+    severity: 'medium',
+    confidence: 'high',
+    title: 'Merge lines',
+    content: '**Title**: Merge lines\n\n<details>\n<summary>Suggested Fix</summary>\n\n```\nlines 3 and 4\n```\n</details>',
+    created_at: '2025-01-01T00:00:00.000Z'
+  };
+}
+
+describe('applying fixes', () => {
+  let repo: TestRepo;
+  const read = () => fs.readFileSync(path.join(repo.dir, 'app.txt'), 'utf-8');
+
+  beforeEach(() => {
+    repo = createRepo();
+    repo.write('app.txt', ORIGINAL);
+    process.chdir(repo.dir);
+  });
+
+  it('replaces the reviewed lines, following them when lines above moved', () => {
+    const comment = createComment();
+    const snippets = captureSnippets([comment], { snapshots: new Map([['app.txt', ORIGINAL]]) });
+    assert.deepEqual(snippets.get('c1'), ['line 3', 'line 4']);
+
+    repo.write('app.txt', 'header\n' + ORIGINAL);
+    const line = applyFixPatch(buildFixPatch(comment, { snippet: snippets.get('c1') }));
+
+    assert.equal(line, 4);
+    assert.equal(read(), 'header\nline 1\nline 2\nlines 3 and 4\nline 5\nline 6\n');
+  });
+
+  it('reports a conflict when the reviewed lines were edited', () => {
+    const comment = createComment();
+    const snippets = captureSnippets([comment], { snapshots: new Map([['app.txt', ORIGINAL]]) });
+
+    repo.write('app.txt', ORIGINAL.replace('line 3\n', 'line three\n'));
+    const patch = buildFixPatch(comment, { snippet: snippets.get('c1') });
+
+    assert.throws(() => applyFixPatch(patch), /^Error: Conflict/);
+    assert.equal(read(), ORIGINAL.replace('line 3\n', 'line three\n'));
+  });
+
+  it('uses the current lines only while the file matches the reviewed hash', () => {
+    const comment = createComment();
+    const fileHash = hashContent(ORIGINAL);
+
+    assert.deepEqual(buildFixPatch(comment, { fileHash }).originalLines, ['line 3', 'line 4']);
+
+    repo.write('app.txt', ORIGINAL.replace('line 3\n', 'line three\n'));
+    assert.throws(() => buildFixPatch(comment, { fileHash }), /Conflict: .*the file changed/);
+    assert.deepEqual(captureSnippets([comment], { fileHashes: { 'app.txt': fileHash } }).size, 0);
+  });
+
+  it('refuses a fix when nothing about the reviewed file was kept', () => {
+    assert.throws(() => buildFixPatch(createComment()), /Conflict: .*no reviewed copy was kept/);
+  });
+
+  it('snapshots a commit review from the commit, not the working tree', async () => {
+    repo.git('add', '-A');
+    repo.git('commit', '-q', '-m', 'initial');
+    const reviewed = ORIGINAL.replace('line 3\n', 'line three\n');
+    repo.write('app.txt', reviewed);
+    repo.git('commit', '-q', '-am', 'edit line 3');
+    // Lines moved and the flagged line changed again since the commit
+    repo.write('app.txt', 'header\n' + ORIGINAL.replace('line 3\n', 'line 3 again\n'));
+
+    const target = resolveReviewTarget({ commit: 'HEAD' });
+    const snapshots = await snapshotFiles(getChangedFiles({ target }).files, target);
+    assert.equal(snapshots.get('app.txt'), reviewed);
+
+    const comment = createComment();
+    const snippets = captureSnippets([comment], { snapshots });
+    assert.deepEqual(snippets.get('c1'), ['line three', 'line 4']);
+
+    const patch = buildFixPatch(comment, { snippet: snippets.get('c1'), fileHash: hashContent(reviewed) });
+    assert.throws(() => applyFixPatch(patch), /^Error: Conflict/);
+    assert.equal(read(), 'header\n' + ORIGINAL.replace('line 3\n', 'line 3 again\n'));
+  });
+
+  it('keeps snippets with the review history', () => {
+    const comment = createComment();
+    const snippets = captureSnippets([comment], { snapshots: new Map([['app.txt', ORIGINAL]]) });
+    saveReview({
+      dataId: 'fix-test',
+      info: { branch: 'main', commitSha: '', target: 'main (working tree) → HEAD' },
+      files: ['app.txt'],
+      comments: [comment],
+      status: 'completed',
+      fileHashes: { 'app.txt': hashContent(ORIGINAL) },
+      snippets
+    });
+    // Saving again without snippets keeps the stored ones
+    saveReview({
+      dataId: 'fix-test',
+      info: { branch: 'main', commitSha: '', target: 'main (working tree) → HEAD' },
+      files: ['app.txt'],
+      comments: [comment],
+      status: 'completed'
+    });
+
+    const stored = findStoredComment('c1');
+    assert.deepEqual(stored?.review.snippets?.c1, ['line 3', 'line 4']);
+    assert.equal(stored?.review.fileHashes?.['app.txt'], hashContent(ORIGINAL));
+  });
+});
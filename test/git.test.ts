@@ -0,0 +1,266 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import {
+  getChangedFiles,
+  getFileDiffs,
+  formatNewFileDiff,
+  parseStatusV2,
+  parseNumstat,
+  resolveReviewTarget,
+  unquoteGitPath,
+  ChangedFile
+} from '../src/git.js';
+import { buildReviewPayload } from '../src/api.js';
+import { createRepo, numberedLines, TestRepo } from './helpers.js';
+
+const UNICODE_PATH = 'tést ü.txt';
+
+/**
+ * Index changed files by path
+ */
+function byPath(files: ChangedFile[]): Map<string, ChangedFile> {
+  return new Map(files.map(f => [f.path, f]));
+}
+
+describe('parsers', () => {
+  it('parses porcelain v2 entries, including renames and paths with spaces', () => {
+    const output = [
+      '1 .M N... 100644 100644 100644 aaa bbb dir/with space.txt',
+      '2 R. N... 100644 100644 100644 aaa bbb R100 new name.txt',
+      'old name.txt',
+      'u UU N... 100644 100644 100644 100644 aaa bbb ccc conflict.txt',
+      '? untracked file.txt',
+      '! ignored.txt',
+      ''
+    ].join('\0');
+
+    assert.deepEqual(parseStatusV2(output), [
+      { path: 'dir/with space.txt', index: '.', worktree: 'M' },
+      { path: 'new name.txt', oldPath: 'old name.txt', index: 'R', worktree: '.' },
+      { path: 'conflict.txt', index: 'M', worktree: 'M' },
+      { path: 'untracked file.txt', index: '?', worktree: '?' }
+    ]);
+  });
+
+  it('parses -z numstat with renames and binary files', () => {
+    const stats = parseNumstat(['3\t1\ta.txt', '-\t-\timage.bin', '2\t0\t', 'old.txt', 'new.txt', ''].join('\0'));
+    assert.deepEqual(stats.get('a.txt'), { additions: 3, deletions: 1, binary: false });
+    assert.deepEqual(stats.get('image.bin'), { additions: 0, deletions: 0, binary: true });
+    assert.deepEqual(stats.get('new.txt'), { additions: 2, deletions: 0, binary: false, oldPath: 'old.txt' });
+  });
+
+  it('formats untracked files as new-file diffs', () => {
+    assert.equal(
+      formatNewFileDiff('a.txt', 'one\ntwo'),
+      'diff --git a/a.txt b/a.txt\nnew file mode 100644\n--- /dev/null\n+++ b/a.txt\n@@ -0,0 +1,2 @@\n+one\n+two\n\\ No newline at end of file\n'
+    );
+    assert.equal(formatNewFileDiff('empty.txt', ''), 'diff --git a/empty.txt b/empty.txt\nnew file mode 100644\n');
+  });
+
+  it('unquotes C-quoted paths', () => {
+    assert.equal(unquoteGitPath('"t\\303\\251st \\"q\\".txt"'), 'tést "q".txt');
+    assert.equal(unquoteGitPath('plain.txt'), 'plain.txt');
+  });
+});
+
+describe('working tree changes', () => {
+  let repo: TestRepo;
+
+  before(() => {
+    repo = createRepo();
+    repo.write('keep.txt', numberedLines(20));
+    repo.write('old name.txt', numberedLines(20, 'renamed'));
+    repo.write('gone.txt', numberedLines(5, 'gone'));
+    repo.write('removed.txt', numberedLines(5, 'removed'));
+    repo.write('link.txt', 'target\n');
+    repo.write('image.bin', Buffer.from([0, 1, 2, 3, 0, 5]));
+    repo.write(UNICODE_PATH, numberedLines(3, 'unicode'));
+    repo.git('add', '-A');
+    repo.git('commit', '-q', '-m', 'initial');
+
+    // Staged and then modified again (MM)
+    repo.write('keep.txt', numberedLines(20).replace('line 2\n', 'line two\n'));
+    repo.git('add', 'keep.txt');
+    repo.write('keep.txt', numberedLines(20).replace('line 2\n', 'line two\n').replace('line 19\n', 'line nineteen\n'));
+
+    // Staged rename, staged and unstaged deletes
+    repo.git('mv', 'old name.txt', 'new name.txt');
+    repo.git('rm', '-q', 'gone.txt');
+    fs.unlinkSync(path.join(repo.dir, 'removed.txt'));
+
+    // File replaced by a symlink (typechange)
+    fs.unlinkSync(path.join(repo.dir, 'link.txt'));
+    fs.symlinkSync('keep.txt', path.join(repo.dir, 'link.txt'));
+
+    // Binary and unicode/space paths
+    repo.write('image.bin', Buffer.from([0, 1, 2, 3, 0, 6, 7]));
+    repo.write(UNICODE_PATH, numberedLines(4, 'unicode'));
+    repo.git('add', UNICODE_PATH);
+
+    // Added to the index, then modified (AM)
+    repo.write('added.txt', numberedLines(2, 'added'));
+    repo.git('add', 'added.txt');
+    repo.write('added.txt', numberedLines(3, 'added'));
+
+    repo.write('dir/new file.txt', numberedLines(4, 'new'));
+    process.chdir(repo.dir);
+  });
+
+  it('reports every kind of change against HEAD', () => {
+    const changes = getChangedFiles();
+    const files = byPath(changes.files);
+
+    assert.deepEqual([...files.keys()].sort(), [
+      'added.txt', 'dir/new file.txt', 'gone.txt', 'image.bin', 'keep.txt',
+      'link.txt', 'new name.txt', 'removed.txt', UNICODE_PATH
+    ]);
+
+    assert.deepEqual(files.get('keep.txt'), {
+      path: 'keep.txt', status: 'modified', additions: 2, deletions: 2, staged: true, binary: false
+    });
+    assert.equal(files.get('new name.txt')?.status, 'renamed');
+    assert.equal(files.get('new name.txt')?.oldPath, 'old name.txt');
+    assert.equal(files.get('gone.txt')?.status, 'deleted');
+    assert.equal(files.get('gone.txt')?.staged, true);
+    assert.equal(files.get('removed.txt')?.status, 'deleted');
+    assert.equal(files.get('removed.txt')?.staged, false);
+    assert.equal(files.get('link.txt')?.status, 'typechange');
+    assert.equal(files.get('image.bin')?.binary, true);
+    assert.equal(files.get(UNICODE_PATH)?.status, 'modified');
+    assert.equal(files.get(UNICODE_PATH)?.additions, 1);
+    assert.deepEqual(files.get('added.txt'), {
+      path: 'added.txt', status: 'added', additions: 3, deletions: 0, staged: true, binary: false
+    });
+    assert.deepEqual(files.get('dir/new file.txt'), {
+      path: 'dir/new file.txt', status: 'untracked', additions: 4, deletions: 0, staged: false, binary: false
+    });
+
+    assert.equal(changes.totalFiles, 9);
+    assert.equal(changes.addedCount, 2);
+    assert.equal(changes.deletedCount, 2);
+    assert.equal(changes.modifiedCount, 5);
+  });
+
+  it('reports only index changes with stagedOnly', () => {
+    const files = byPath(getChangedFiles({ stagedOnly: true }).files);
+
+    assert.deepEqual([...files.keys()].sort(), ['added.txt', 'gone.txt', 'keep.txt', 'new name.txt', UNICODE_PATH]);
+    assert.equal(files.get('keep.txt')?.additions, 1);
+    assert.equal(files.get('keep.txt')?.deletions, 1);
+    assert.equal(files.get('added.txt')?.status, 'added');
+    assert.equal(files.get('added.txt')?.additions, 2);
+    assert.equal(files.get('new name.txt')?.status, 'renamed');
+    assert.equal(files.get('gone.txt')?.status, 'deleted');
+  });
+
+  it('splits one diff into a patch per file', async () => {
+    const files = getChangedFiles().files.filter(f => f.status !== 'untracked');
+    const { fullDiff, parts, patches } = await getFileDiffs(files, ['HEAD']);
+
+    assert.deepEqual([...patches.keys()].sort(), files.map(f => f.path).sort());
+    assert.equal(parts.length, files.length);
+    assert.equal(fullDiff, parts.map(part => part.text).join(''));
+
+    assert.match(patches.get('new name.txt')!, /^rename from old name\.txt$/m);
+    assert.match(patches.get('keep.txt')!, /^\+line nineteen$/m);
+    assert.match(patches.get('gone.txt')!, /^deleted file mode/m);
+    assert.match(patches.get('image.bin')!, /^Binary files/m);
+    assert.match(patches.get(UNICODE_PATH)!, /^\+unicode 4$/m);
+    // Both halves of a typechange stay in one patch
+    assert.match(patches.get('link.txt')!, /^deleted file mode 100644$/m);
+    assert.match(patches.get('link.txt')!, /^new file mode 120000$/m);
+  });
+});
+
+describe('commit changes', () => {
+  before(() => {
+    const repo = createRepo();
+    repo.write('src.txt', numberedLines(20, 'source'));
+    repo.git('add', '-A');
+    repo.git('commit', '-q', '-m', 'initial');
+
+    repo.write('copy.txt', numberedLines(20, 'source'));
+    repo.write('src.txt', numberedLines(20, 'source').replace('source 1\n', 'source one\n'));
+    repo.git('add', '-A');
+    repo.git('commit', '-q', '-m', 'copy');
+    process.chdir(repo.dir);
+  });
+
+  it('detects copies between two commits', async () => {
+    const target = resolveReviewTarget({ commit: 'HEAD' });
+    const files = byPath(getChangedFiles({ target }).files);
+
+    assert.equal(files.get('copy.txt')?.status, 'copied');
+    assert.equal(files.get('copy.txt')?.oldPath, 'src.txt');
+    assert.equal(files.get('src.txt')?.status, 'modified');
+
+    const { patches } = await getFileDiffs([...files.values()], [target.base.sha, target.head.sha!]);
+    assert.match(patches.get('copy.txt')!, /^copy from src\.txt$/m);
+    assert.match(patches.get('src.txt')!, /^\+source one$/m);
+  });
+});
+
+describe('uploaded diffs', () => {
+  let repo: TestRepo;
+
+  before(() => {
+    repo = createRepo();
+    process.chdir(repo.dir);
+  });
+
+  it('diffs staged files before the first commit', async () => {
+    repo.write('first.txt', numberedLines(2));
+    repo.git('add', 'first.txt');
+    repo.write('first.txt', numberedLines(3));
+    const target = resolveReviewTarget();
+
+    const payload = await buildReviewPayload(getChangedFiles({ target }).files, target);
+    assert.match(payload.changes.fullDiff, /^\+line 3$/m);
+  });
+
+  it('fails instead of uploading empty diffs when git fails', async () => {
+    repo.git('add', '-A');
+    repo.git('commit', '-q', '-m', 'initial');
+    repo.write('first.txt', numberedLines(4));
+    const target = resolveReviewTarget();
+    const files = getChangedFiles({ target }).files;
+
+    await assert.rejects(
+      buildReviewPayload(files, { ...target, kind: 'base', base: { ref: 'gone', sha: '0'.repeat(40) } }),
+      /bad object|unknown revision|invalid/i
+    );
+  });
+});
+
+describe('base branch reviews', () => {
+  before(() => {
+    const repo = createRepo();
+    repo.write('app.txt', numberedLines(3));
+    repo.git('add', '-A');
+    repo.git('commit', '-q', '-m', 'initial');
+    repo.git('checkout', '-q', '-b', 'feature');
+    repo.write('app.txt', numberedLines(4));
+    repo.git('commit', '-q', '-am', 'more lines');
+    repo.write('notes/new file.txt', numberedLines(2, 'note'));
+    process.chdir(repo.dir);
+  });
+
+  it('uploads untracked files in full and adds them to the combined diff', async () => {
+    const target = resolveReviewTarget({ base: 'main' });
+    const files = byPath(getChangedFiles({ target }).files);
+    assert.equal(files.get('notes/new file.txt')?.status, 'untracked');
+
+    const payload = await buildReviewPayload([...files.values()], target);
+    const untracked = payload.changes.files.find((f: any) => f.filename === 'notes/new file.txt');
+
+    assert.equal(untracked.status, 'added');
+    assert.equal(untracked.patch, numberedLines(2, 'note'));
+    assert.match(payload.changes.fullDiff, /^\+line 4$/m);
+    assert.ok(payload.changes.fullDiff.includes(
+      'diff --git a/notes/new file.txt b/notes/new file.txt\nnew file mode 100644\n' +
+      '--- /dev/null\n+++ b/notes/new file.txt\n@@ -0,0 +1,2 @@\n+note 1\n+note 2\n'
+    ));
+  });
+});
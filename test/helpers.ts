@@ -0,0 +1,38 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { execFileSync } from 'child_process';
+
+export interface TestRepo {
+  dir: string;
+  git(...args: string[]): string;
+  write(file: string, content: string | Buffer): void;
+}
+
+/**
+ * Create an empty git repository in a temporary directory
+ */
+export function createRepo(): TestRepo {
+  const dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'beetle-repo-')));
+  const git = (...args: string[]) => execFileSync('git', [
+    '-c', 'user.name=Beetle Test', '-c', 'user.email=test@beetle.local',
+    '-c', 'commit.gpgsign=false', '-c', 'core.autocrlf=false', ...args
+  ], { cwd: dir, encoding: 'utf-8', stdio: 'pipe' });
+
+  git('init', '-q', '-b', 'main');
+  return {
+    dir,
+    git,
+    write: (file, content) => {
+      fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+      fs.writeFileSync(path.join(dir, file), content);
+    }
+  };
+}
+
+/**
+ * Lines numbered "line 1".."line n", newline-terminated
+ */
+export function numberedLines(count: number, prefix = 'line'): string {
+  return Array.from({ length: count }, (_, i) => `${prefix} ${i + 1}\n`).join('');
+}
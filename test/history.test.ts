@@ -0,0 +1,45 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { saveReview, findReview } from '../src/history.js';
+import { getCommentFingerprint } from '../src/comments.js';
+import { captureSnippets } from '../src/fix.js';
+import { ReviewComment } from '../src/api.js';
+import { createRepo, numberedLines, TestRepo } from './helpers.js';
+
+const INFO = { branch: 'main', commitSha: '', target: 'main (working tree) → HEAD' };
+
+const COMMENT: ReviewComment = {
+  id: 'c1',
+  file_path: 'app.txt',
+  line_start: 2,
+  line_end: 2,
+  severity: 'low',
+  confidence: 'high',
+  title: 'Rename variable',
+  content: '**Title**: Rename variable',
+  created_at: '2025-01-01T00:00:00.000Z'
+};
+
+describe('review history fingerprints', () => {
+  let repo: TestRepo;
+
+  before(() => {
+    repo = createRepo();
+    repo.write('app.txt', numberedLines(3));
+    process.chdir(repo.dir);
+  });
+
+  it('fingerprints comments from the reviewed lines and keeps them after edits', () => {
+    const snippets = captureSnippets([COMMENT], { snapshots: new Map([['app.txt', numberedLines(3)]]) });
+    const first = saveReview({ dataId: 'history-test', info: INFO, files: ['app.txt'], comments: [COMMENT], status: 'running', snippets });
+    const fingerprint = first.fingerprints?.c1;
+    assert.equal(fingerprint, getCommentFingerprint(COMMENT, ['line 2']));
+
+    // Editing the flagged line (e.g. applying the fix) doesn't change the stored fingerprint
+    repo.write('app.txt', numberedLines(3).replace('line 2', 'renamed 2'));
+    assert.notEqual(getCommentFingerprint(COMMENT), fingerprint);
+    saveReview({ dataId: 'history-test', info: INFO, files: ['app.txt'], comments: [COMMENT], status: 'completed' });
+
+    assert.equal(findReview('history-test')?.fingerprints?.c1, fingerprint);
+  });
+});
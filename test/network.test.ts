@@ -0,0 +1,42 @@
+import { describe, it, before, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { getNetworkSettings } from '../src/network.js';
+import { ensureConfigDir, getConfigPath } from '../src/config.js';
+
+const ENV_NAMES = ['HTTPS_PROXY', 'NO_PROXY', 'BEETLE_CA_FILE'];
+
+describe('network settings', () => {
+  before(() => {
+    ensureConfigDir();
+    fs.writeFileSync(getConfigPath(), JSON.stringify({
+      profiles: {},
+      network: { proxy: 'http://config-proxy:8080', noProxy: 'config.local', caFile: '~/certs/config.pem' }
+    }));
+  });
+
+  afterEach(() => {
+    ENV_NAMES.forEach(name => delete process.env[name]);
+  });
+
+  it('uses config.json when the environment sets nothing', () => {
+    const { proxy, noProxy, caFiles } = getNetworkSettings();
+
+    assert.deepEqual(proxy, { value: 'http://config-proxy:8080', source: 'network.proxy in config.json' });
+    assert.deepEqual(noProxy, { value: 'config.local', source: 'network.noProxy in config.json' });
+    assert.deepEqual(caFiles, [{ value: path.join(os.homedir(), 'certs/config.pem'), source: 'network.caFile in config.json' }]);
+  });
+
+  it('lets the environment win for the proxy and the CA file alike', () => {
+    process.env.HTTPS_PROXY = 'http://env-proxy:3128';
+    process.env.NO_PROXY = 'env.local';
+    process.env.BEETLE_CA_FILE = '/etc/ssl/env.pem';
+    const { proxy, noProxy, caFiles } = getNetworkSettings();
+
+    assert.deepEqual(proxy, { value: 'http://env-proxy:3128', source: 'HTTPS_PROXY' });
+    assert.deepEqual(noProxy, { value: 'env.local', source: 'NO_PROXY' });
+    assert.deepEqual(caFiles, [{ value: '/etc/ssl/env.pem', source: 'BEETLE_CA_FILE' }]);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildSarifLog } from '../src/sarif.js';
+import { ReviewComment } from '../src/api.js';
+
+/**
+ * A comment on lines 10-11 of src/fetch.ts with the given "Suggested Fix" block
+ */
+function commentWithFix(fix: string): ReviewComment {
+  return {
+    id: 'c1',
+    file_path: 'src/fetch.ts',
+    line_start: 10,
+    line_end: 11,
+    severity: 'high',
+    confidence: 'high',
+    title: 'Missing timeout',
+    content: [
+      '**Severity**: high',
+      '**Title**: Missing timeout',
+      '',
+      'Requests can hang forever.',
+      '',
+      '<details>',
+      '<summary>Suggested Fix</summary>',
+      '',
+      fix,
+      '</details>'
+    ].join('\n'),
+    created_at: '2025-01-01T00:00:00.000Z'
+  };
+}
+
+/**
+ * Get the only replacement of the only fix in a SARIF log
+ */
+function getReplacement(log: any): any {
+  const [result] = log.runs[0].results;
+  assert.equal(result.fixes.length, 1);
+  return result.fixes[0].artifactChanges[0].replacements[0];
+}
+
+describe('SARIF fixes', () => {
+  it('replaces the flagged lines with the suggestion and its own newline', () => {
+    const fix = '```ts\nconst controller = new AbortController();\nawait fetch(url, { signal: controller.signal });\n```';
+    const replacement = getReplacement(buildSarifLog([commentWithFix(fix)]));
+
+    assert.deepEqual(replacement.deletedRegion, { startLine: 10, endLine: 11 });
+    assert.equal(
+      replacement.insertedContent.text,
+      'const controller = new AbortController();\nawait fetch(url, { signal: controller.signal });\n'
+    );
+  });
+
+  it('uses the replacement side of a diff-style suggestion', () => {
+    const fix = '```diff\n-await fetch(url);\n+await fetch(url, { signal });\n```';
+    const replacement = getReplacement(buildSarifLog([commentWithFix(fix)]));
+
+    assert.equal(replacement.insertedContent.text, 'await fetch(url, { signal });\n');
+  });
+
+  it('keeps a YAML list as it is instead of reading it as a diff', () => {
+    const fix = '```yaml\n- name: test\n  run: npm test\n- name: lint\n  run: npm run lint\n```';
+    const replacement = getReplacement(buildSarifLog([commentWithFix(fix)]));
+
+    assert.equal(replacement.insertedContent.text, '- name: test\n  run: npm test\n- name: lint\n  run: npm run lint\n');
+  });
+
+  it('keeps an untagged bullet list as it is', () => {
+    const replacement = getReplacement(buildSarifLog([commentWithFix('```\n- first\n- second\n```')]));
+
+    assert.equal(replacement.insertedContent.text, '- first\n- second\n');
+  });
+
+  it('does not add a newline the suggestion does not have', () => {
+    const replacement = getReplacement(buildSarifLog([commentWithFix('await fetch(url, { signal });')]));
+
+    assert.equal(replacement.insertedContent.text, 'await fetch(url, { signal });');
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { scanForSecrets, buildReviewPayload } from '../src/api.js';
+import { getChangedFiles, resolveReviewTarget, ReviewTarget } from '../src/git.js';
+import { createRepo } from './helpers.js';
+
+// Looks like a GitHub token to the built-in detector
+const TOKEN = 'ghp_' + 'a1B2c3D4e5F6g7H8i9J0'.repeat(2);
+
+describe('secrets in commit messages', () => {
+  let target: ReviewTarget;
+
+  before(() => {
+    const repo = createRepo();
+    repo.write('app.txt', 'hello\n');
+    repo.git('add', '.');
+    repo.git('commit', '-q', '-m', 'init');
+    repo.write('app.txt', 'hello\nworld\n');
+    repo.git('commit', '-q', '-am', `Add world\n\nDeployed with ${TOKEN}`);
+    process.chdir(repo.dir);
+    target = resolveReviewTarget({ commit: 'HEAD' });
+  });
+
+  it('reports them with the commit they are in', async () => {
+    const findings = await scanForSecrets(getChangedFiles({ target }).files, target);
+
+    assert.deepEqual(findings, [{ file: `commit ${target.head.sha?.substring(0, 7)}`, name: 'GitHub token', line: 3 }]);
+  });
+
+  it('redacts them in the payload', async () => {
+    const payload = await buildReviewPayload(getChangedFiles({ target }).files, target);
+    const [commit] = payload.changes.commits;
+
+    assert.equal(commit.message.trim(), 'Add world\n\nDeployed with [REDACTED:GitHub token]');
+    assert.ok(!JSON.stringify(payload).includes(TOKEN));
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { resolveReviewSettings, validateSettings } from '../src/settings.js';
+import { createRepo, TestRepo } from './helpers.js';
+
+describe('review settings', () => {
+  let repo: TestRepo;
+
+  beforeEach(() => {
+    repo = createRepo();
+    process.chdir(repo.dir);
+  });
+
+  it('applies a committed format only when output is not a terminal', () => {
+    repo.write('.beetle.json', JSON.stringify({ format: 'sarif', failOn: 'high' }));
+
+    assert.equal(resolveReviewSettings({}, true).format, undefined);
+    assert.equal(resolveReviewSettings({}, true).failOn, 'high');
+    assert.equal(resolveReviewSettings({}, false).format, 'sarif');
+    assert.equal(resolveReviewSettings({ format: 'json' }, true).format, 'json');
+  });
+
+  it('rejects secret patterns that are not valid regular expressions', () => {
+    assert.throws(
+      () => validateSettings({ secretPatterns: ['token_[a-z]+', 'key=(unclosed'] }, '.beetle.json'),
+      /Invalid settings in \.beetle\.json:\n {2}- secretPatterns\[1\] must be a valid regular expression/
+    );
+  });
+
+  it('warns about secret patterns that come from the project', () => {
+    repo.write('.beetle.json', JSON.stringify({ secretPatterns: ['token_[a-z]+'] }));
+    const settings = resolveReviewSettings({}, false);
+
+    assert.deepEqual(settings.secretPatterns, ['token_[a-z]+']);
+    assert.equal(settings.warnings.length, 1);
+    assert.match(settings.warnings[0], /1 secret pattern from \.beetle\.json/);
+  });
+});
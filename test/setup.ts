@@ -0,0 +1,14 @@
+/**
+ * Loaded before every test file: keep tests away from the real ~/.beetle
+ * and from credentials or settings in the environment.
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+process.env.HOME = fs.mkdtempSync(path.join(os.tmpdir(), 'beetle-home-'));
+process.env.USERPROFILE = process.env.HOME;
+
+Object.keys(process.env)
+  .filter(name => name.startsWith('BEETLE_') || /^(https?_proxy|no_proxy|NODE_EXTRA_CA_CERTS)$/i.test(name))
+  .forEach(name => delete process.env[name]);
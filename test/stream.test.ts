@@ -0,0 +1,187 @@
+import { describe, it, before, after, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { subscribeToReview, ReviewComment, ReviewEvent, AnalysisState } from '../src/api.js';
+import { startMockServer, MockServer } from '../src/mock-server.js';
+
+/**
+ * A minimal comment with the given id
+ */
+function comment(id: string): ReviewComment {
+  return {
+    id,
+    file_path: 'app.ts',
+    line_start: 1,
+    line_end: 1,
+    severity: 'low',
+    confidence: 'high',
+    title: `Issue ${id}`,
+    content: `**Title**: Issue ${id}`,
+    created_at: '2025-01-01T00:00:00.000Z'
+  };
+}
+
+/**
+ * Follow a review until it ends, collecting what was delivered
+ */
+async function follow(dataId: string): Promise<{ comments: string[]; statuses: AnalysisState[]; errors: number; final: AnalysisState }> {
+  const events: ReviewEvent[] = [];
+  const final = await subscribeToReview(dataId, event => events.push(event)).done;
+  return {
+    comments: events.flatMap(e => (e.type === 'comment' ? [e.comment.id] : [])),
+    statuses: events.flatMap(e => (e.type === 'status' ? [e.status] : [])),
+    errors: events.filter(e => e.type === 'error').length,
+    final
+  };
+}
+
+// Connections to the stub stream: the Last-Event-ID each one sent
+let connections: (string | undefined)[] = [];
+// Writes the response for the nth connection (0-based)
+let serveStream: (res: http.ServerResponse, connection: number) => void = () => {};
+// Answers to polls once streaming is given up
+let polled = { comments: [] as ReviewComment[], status: 'running' as AnalysisState };
+
+let stub: http.Server;
+let stubUrl: string;
+
+before(async () => {
+  process.env.BEETLE_TOKEN = 'test-token';
+  stub = http.createServer((req, res) => {
+    if (req.url === '/api/extension/stream/r1') {
+      connections.push(req.headers['last-event-id'] as string | undefined);
+      return serveStream(res, connections.length - 1);
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    if (req.url === '/api/extension/comments/r1') return res.end(JSON.stringify({ comments: polled.comments }));
+    res.end(JSON.stringify({ analysis_status: polled.status, data_id: 'r1' }));
+  });
+  await new Promise<void>(resolve => stub.listen(0, '127.0.0.1', resolve));
+  stubUrl = `http://127.0.0.1:${(stub.address() as { port: number }).port}`;
+});
+
+after(() => {
+  stub.close();
+});
+
+describe('review event stream', () => {
+  before(() => {
+    process.env.BEETLE_API_URL = stubUrl;
+  });
+
+  afterEach(() => {
+    connections = [];
+    polled = { comments: [], status: 'running' };
+  });
+
+  it('parses Server-Sent Events and resumes after the last event id', async () => {
+    serveStream = (res, connection) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      if (connection === 0) {
+        // CRLF line endings, a keep-alive, data split over two lines and over two writes
+        res.write('retry: 10\r\n\r\n: keep-alive\r\n\r\n');
+        const c1 = JSON.stringify(comment('c1')).replace('"title"', '\n"title"').split('\n');
+        res.write(`id: 1\r\nevent: comment\r\ndata: ${c1[0]}\r\nda`);
+        res.end(`ta: ${c1[1]}\r\n\r\n`);
+      } else {
+        // A server replaying c1 anyway doesn't deliver it twice
+        res.write(`id: 1\nevent: comment\ndata: ${JSON.stringify(comment('c1'))}\n\n`);
+        res.write(`id: 2\nevent: comments\ndata: ${JSON.stringify({ comments: [comment('c2'), comment('c3')] })}\n\n`);
+        res.write(`event: status\ndata: ${JSON.stringify({ analysis_status: 'completed' })}\n\n`);
+        res.write(`id: 3\nevent: comment\ndata: ${JSON.stringify(comment('ignored'))}\n\n`);
+      }
+    };
+
+    const result = await follow('r1');
+
+    assert.deepEqual(connections, [undefined, '1']);
+    assert.deepEqual(result, { comments: ['c1', 'c2', 'c3'], statuses: ['completed'], errors: 0, final: 'completed' });
+  });
+
+  it('parses NDJSON streams', async () => {
+    serveStream = res => {
+      res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+      res.write(`${JSON.stringify({ type: 'comment', id: 1, comment: comment('c1') })}\n\n`);
+      res.write(`${JSON.stringify({ type: 'status', analysis_status: 'running' })}\n`);
+      res.end(`${JSON.stringify({ type: 'status', analysis_status: 'failed' })}\n`);
+    };
+
+    const result = await follow('r1');
+
+    assert.deepEqual(result, { comments: ['c1'], statuses: ['running', 'failed'], errors: 0, final: 'failed' });
+  });
+
+  it('polls instead once the stream keeps closing, without repeating comments', async () => {
+    serveStream = (res, connection) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.end(connection === 0 ? `retry: 10\nid: 1\nevent: comment\ndata: ${JSON.stringify(comment('c1'))}\n\n` : '');
+    };
+    polled = { comments: [comment('c1'), comment('c2')], status: 'completed' };
+
+    const result = await follow('r1');
+
+    // One connection with data, then three that sent nothing
+    assert.equal(connections.length, 4);
+    assert.deepEqual(connections.slice(1), ['1', '1', '1']);
+    assert.deepEqual(result, { comments: ['c1', 'c2'], statuses: ['completed'], errors: 0, final: 'completed' });
+  });
+
+  it('polls servers that do not stream', async () => {
+    serveStream = res => {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end('{}');
+    };
+    polled = { comments: [comment('c1')], status: 'interrupted' };
+
+    const result = await follow('r1');
+
+    assert.equal(connections.length, 1);
+    assert.deepEqual(result, { comments: ['c1'], statuses: ['interrupted'], errors: 0, final: 'interrupted' });
+  });
+});
+
+describe('mock server', () => {
+  let server: MockServer | undefined;
+
+  /**
+   * Start a review on the mock server like the CLI does
+   */
+  async function startReview(): Promise<string> {
+    const response = await fetch(`${server!.url}/api/extension/review`, {
+      method: 'POST',
+      headers: { 'Authorization': 'Bearer test-token', 'Content-Type': 'application/json' },
+      body: JSON.stringify({ changes: { files: [{ filename: 'app.ts', patch: '@@ -1,1 +1,2 @@\n a\n+b\n' }] } })
+    });
+    return (await response.json()).extension_data_id;
+  }
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  it('streams the comments of an interrupted analysis', async () => {
+    server = await startMockServer({ scenario: 'interrupt', interval: 10 });
+    process.env.BEETLE_API_URL = server.url;
+
+    const result = await follow(await startReview());
+
+    assert.equal(result.comments.length, 2);
+    assert.deepEqual(result.statuses, ['interrupted']);
+    assert.equal(result.final, 'interrupted');
+  });
+
+  it('serves polling clients when streaming is off', async () => {
+    const requests: string[] = [];
+    server = await startMockServer({ interval: 10, comments: 3, stream: false, onRequest: (method, url) => requests.push(url) });
+    process.env.BEETLE_API_URL = server.url;
+
+    const dataId = await startReview();
+    const result = await follow(dataId);
+
+    assert.deepEqual(result.comments, [`${dataId}-c1`, `${dataId}-c2`, `${dataId}-c3`]);
+    assert.equal(result.final, 'completed');
+    assert.equal(requests.filter(url => url.startsWith('/api/extension/stream/')).length, 1);
+    assert.ok(requests.some(url => url.startsWith('/api/extension/status/')));
+  });
+});